@@ -0,0 +1,67 @@
+/**
+ * vscode 命令触发的编辑操作, 用户可以在 keybindings.json 里重新绑定快捷键
+ */
+import { replaceSelection } from './toolbar'
+import { saveVditorOptions } from './utils'
+
+// 工具栏没有对应按钮时插入的 markdown
+const Formats = {
+  bold: ['**', '**'],
+  italic: ['*', '*'],
+  strike: ['~~', '~~'],
+  'inline-code': ['`', '`'],
+  link: ['[', '](https://)'],
+  code: ['```\n', '\n```'],
+  quote: ['> ', ''],
+  table: ['| ', ' |  |\n| --- | --- |\n|  |  |'],
+}
+
+const ModeKeys = { wysiwyg: 'Digit7', ir: 'Digit8', sv: 'Digit9' }
+
+function switchMode(mode: string) {
+  const v = vditor.vditor
+  if (!ModeKeys[mode] || mode === v.currentMode) {
+    return
+  }
+  const button = v.toolbar.elements['edit-mode']?.querySelector<HTMLElement>(`[data-mode="${mode}"]`)
+  if (button) {
+    button.dispatchEvent(new CustomEvent('click'))
+  } else {
+    // 工具栏里没有切换模式的按钮, 触发 vditor 的 ⌥⌘7/8/9 快捷键; 不冒泡, 免得 vscode 也收到
+    const mac = navigator.platform.toUpperCase().includes('MAC')
+    v[v.currentMode].element.dispatchEvent(
+      new KeyboardEvent('keydown', { code: ModeKeys[mode], altKey: true, metaKey: mac, ctrlKey: !mac })
+    )
+  }
+  saveVditorOptions()
+}
+
+function format(name: keyof typeof Formats) {
+  const v = vditor.vditor
+  // 工具栏里有这个按钮时直接点它, 这样再次执行会取消格式
+  const button = v.toolbar.elements[name]?.firstElementChild as HTMLElement
+  if (button) {
+    button.dispatchEvent(new CustomEvent('click'))
+    return
+  }
+  // 按钮被 markdown-editor.toolbar 隐藏了, 直接包裹选中的文字
+  const [prefix, suffix] = Formats[name]
+  replaceSelection((selection) => `${prefix}${selection}${suffix}`)
+}
+
+export function runAction(action: string) {
+  if (!window.vditor) {
+    return
+  }
+  const v = vditor.vditor
+  if (action in Formats) {
+    vditor.focus()
+    format(action as keyof typeof Formats)
+  } else if (action === 'outline') {
+    v.options.outline.enable = v.outline.element.style.display !== 'block'
+    v.outline.toggle(v, v.options.outline.enable)
+    saveVditorOptions()
+  } else if (action.startsWith('mode.')) {
+    switchMode(action.slice('mode.'.length))
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * 标出插件检查出的失效链接和图片, 原因显示在 vscode 的问题面板里
+ */
+import { getEditorElement } from './source-map'
+import { matchRanges, refreshHighlights, registerHighlight } from './highlight'
+
+let targets = new Set<string>()
+let pattern: RegExp = null
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function brokenRanges() {
+  if (!pattern) {
+    return []
+  }
+  // ir/sv 模式下链接地址是 marker 里的文字
+  const ranges = matchRanges(pattern, (_, node) =>
+    !!node.parentElement.closest('.vditor-ir__marker--link, .vditor-sv__marker--link')
+  )
+  // wysiwyg 模式下只有 <a>, 标出链接文字
+  getEditorElement()
+    .querySelectorAll('a[href]')
+    .forEach((a) => {
+      if (targets.has(a.getAttribute('href'))) {
+        const range = document.createRange()
+        range.selectNodeContents(a)
+        ranges.push(range)
+      }
+    })
+  return ranges
+}
+
+export function setBrokenLinks(links: { target: string; reason: string }[]) {
+  targets = new Set(links.map((l) => l.target))
+  pattern = targets.size
+    ? new RegExp(
+        Array.from(targets)
+          .sort((a, b) => b.length - a.length)
+          .map(escapeRegExp)
+          .join('|'),
+        'g'
+      )
+    : null
+  refreshHighlights()
+}
+
+export function setupBrokenLinks() {
+  registerHighlight('broken-link', brokenRanges)
+}
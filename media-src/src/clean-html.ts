@@ -0,0 +1,67 @@
+/**
+ * 清理粘贴的 html, 只用 DOM, 不依赖 vditor
+ */
+
+// 只保留 markdown 能表达的属性
+const KeepAttributes = ['href', 'src', 'alt', 'title', 'colspan', 'rowspan', 'align', 'start']
+
+function unwrap(el: Element) {
+  el.replaceWith(...Array.from(el.childNodes))
+}
+
+function wrap(el: HTMLElement, tag: string) {
+  const wrapper = el.ownerDocument.createElement(tag)
+  el.replaceWith(wrapper)
+  wrapper.appendChild(el)
+}
+
+/**
+ * 把样式表达的粗体/斜体/删除线换成标签, 去掉无意义的包裹和属性
+ */
+export function cleanHtml(html: string) {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const body = doc.body
+  body
+    .querySelectorAll('script, style, meta, link, title, colgroup, o\\:p')
+    .forEach((el) => el.remove())
+  // Google Docs 把整段内容包在 <b style="font-weight:normal" id="docs-internal-guid-...">
+  body
+    .querySelectorAll('b[id^="docs-internal-guid"]')
+    .forEach(unwrap)
+  body.querySelectorAll<HTMLElement>('span[style]').forEach((el) => {
+    const style = el.style
+    if (/^(bold|[6-9]00)$/.test(style.fontWeight)) {
+      wrap(el, 'strong')
+    }
+    if (style.fontStyle === 'italic') {
+      wrap(el, 'em')
+    }
+    if (style.textDecorationLine.includes('line-through') || style.textDecoration.includes('line-through')) {
+      wrap(el, 's')
+    }
+  })
+  body.querySelectorAll('span, font, section, article, header, footer, main').forEach(unwrap)
+  body.querySelectorAll('*').forEach((el) => {
+    Array.from(el.attributes).forEach((attr) => {
+      if (!KeepAttributes.includes(attr.name)) {
+        el.removeAttribute(attr.name)
+      }
+    })
+  })
+  // 空段落和只有 <br> 的段落
+  body.querySelectorAll('p, div').forEach((el) => {
+    if (!el.textContent.trim() && !el.querySelector('img, table, hr')) {
+      el.remove()
+    }
+  })
+  return body.innerHTML
+}
+
+/** 远程图片地址 */
+export function remoteImages(html: string) {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const urls = Array.from(doc.querySelectorAll('img'))
+    .map((img) => img.getAttribute('src'))
+    .filter((src) => /^https?:\/\//i.test(src || ''))
+  return Array.from(new Set(urls))
+}
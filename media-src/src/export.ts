@@ -0,0 +1,114 @@
+/**
+ * 导出为独立的 html, 公式和图表在这里渲染好后交给 vscode 写文件
+ */
+import Vditor from 'vditor'
+import { t } from './lang'
+import { fileToBase64 } from './utils'
+
+// css 里的相对 url, 外部地址和 data url 留着
+const RelativeUrl = /url\((['"]?)(?!data:|[a-z][\w+.-]*:|#)([^'")]+)\1\)/gi
+
+async function toDataUrl(url: string) {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`${res.status} ${url}`)
+  }
+  const blob = await res.blob()
+  return `data:${blob.type || 'application/octet-stream'};base64,${await fileToBase64(blob)}`
+}
+
+// 导出的文件不在原来的位置, css 引用的字体 (KaTeX、内容主题) 和图片都换成 data url
+async function inlineUrls(css: string, href: string) {
+  const urls = new Set<string>()
+  css.replace(RelativeUrl, (m, quote, url) => {
+    urls.add(url)
+    return m
+  })
+  const dataUrls = new Map<string, string>()
+  await Promise.all(
+    Array.from(urls).map(async (url) => {
+      const absolute = new URL(url, href).href
+      try {
+        dataUrls.set(url, await toDataUrl(absolute))
+      } catch (error) {
+        console.error('failed to inline', absolute, error)
+        dataUrls.set(url, absolute)
+      }
+    })
+  )
+  return css.replace(RelativeUrl, (m, quote, url) => `url(${quote}${dataUrls.get(url)}${quote})`)
+}
+
+async function collectCss() {
+  const parts = await Promise.all(
+    Array.from(
+      document.querySelectorAll<HTMLLinkElement | HTMLStyleElement>(
+        'link[rel="stylesheet"], style'
+      )
+    ).map(async (el) => {
+      if (el instanceof HTMLStyleElement) {
+        return inlineUrls(el.textContent, document.baseURI)
+      }
+      try {
+        const res = await fetch(el.href)
+        return inlineUrls(await res.text(), el.href)
+      } catch (error) {
+        console.error('failed to inline css', el.href, error)
+        return ''
+      }
+    })
+  )
+  return parts.join('\n')
+}
+
+async function renderHtml() {
+  const options = vditor.vditor.options
+  const container = document.createElement('div')
+  // mermaid/echarts need a laid out element to measure
+  container.style.cssText = 'position:absolute;left:-99999px;top:0;width:800px'
+  document.body.appendChild(container)
+  try {
+    await new Promise<void>((resolve) => {
+      Vditor.preview(container, vditor.getValue(), {
+        mode: options.theme === 'dark' ? 'dark' : 'light',
+        cdn: options.cdn,
+        hljs: options.preview.hljs,
+        math: options.preview.math,
+        markdown: options.preview.markdown,
+        theme: options.preview.theme,
+        transform: options.preview.transform,
+        after: resolve,
+      })
+    })
+    return container.innerHTML
+  } finally {
+    container.remove()
+  }
+}
+
+export async function exportDocument(format: 'html' | 'pdf') {
+  try {
+    const body = await renderHtml()
+    const css = await collectCss()
+    const dark = vditor.vditor.options.theme === 'dark'
+    const html = `<!DOCTYPE html>
+<html lang="${document.documentElement.lang || 'en'}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title></title>
+<style>${css}</style>
+<style>body{margin:0 auto;max-width:860px;padding:24px;${dark ? 'background:#2f363d;' : ''}}</style>
+</head>
+<body>
+<div class="vditor-reset">${body}</div>
+</body>
+</html>`
+    vscode.postMessage({ command: 'export', format, html })
+  } catch (error) {
+    vscode.postMessage({
+      command: 'error',
+      content: t('exportFailed', error.message),
+    })
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * 文档开头的 YAML/TOML front matter 显示成表单, 只改动被编辑字段所在的行
+ */
+import { FieldType, FieldValue, FrontMatter, parseFrontMatter, updateField } from '../../src/shared/front-matter'
+import { patchValue } from './patch'
+import { postEdit } from './sync'
+import { t } from './lang'
+
+interface SchemaProperty {
+  type?: string
+  format?: string
+  enum?: any[]
+  items?: { type?: string; enum?: any[] }
+  title?: string
+  description?: string
+}
+
+export interface FrontMatterSchema {
+  properties?: Record<string, SchemaProperty>
+  required?: string[]
+}
+
+function schemaType(prop: SchemaProperty): FieldType {
+  if (prop.type === 'boolean') {
+    return 'boolean'
+  }
+  if (prop.type === 'number' || prop.type === 'integer') {
+    return 'number'
+  }
+  if (prop.type === 'array') {
+    return 'list'
+  }
+  if (prop.format === 'date' || prop.format === 'date-time') {
+    return 'date'
+  }
+  return 'string'
+}
+
+/**
+ * 按 schema 检查字段, 返回 key -> 错误信息
+ */
+export function validate(fm: FrontMatter, schema: FrontMatterSchema) {
+  const errors = new Map<string, string>()
+  const properties = schema.properties || {}
+  ;(schema.required || []).forEach((key) => {
+    if (!fm.fields.some((f) => f.key === key)) {
+      errors.set(key, t('required'))
+    }
+  })
+  fm.fields.forEach((f) => {
+    const prop = properties[f.key]
+    if (!prop || f.type === 'raw') {
+      return
+    }
+    const expected = schemaType(prop)
+    // 日期也是合法的字符串
+    if (expected !== f.type && !(expected === 'string' && f.type === 'date')) {
+      errors.set(f.key, t('expectedType', expected, f.type))
+    } else if (prop.enum && !prop.enum.includes(f.value)) {
+      errors.set(f.key, t('mustBeOneOf', prop.enum.join(', ')))
+    } else if (prop.items?.enum && f.type === 'list') {
+      const invalid = (f.value as string[]).filter((v) => !prop.items.enum.includes(v))
+      invalid.length && errors.set(f.key, t('unknownValues', invalid.join(', ')))
+    }
+  })
+  return errors
+}
+
+let schema: FrontMatterSchema = {}
+let enabled = true
+let container: HTMLDetailsElement = null
+let renderTimer = null
+// 工作区里各个列表字段出现过的值, 用来补全
+const knownValues = new Map<string, string[]>()
+
+export function setFrontMatterOptions(options: { enabled?: boolean; schema?: FrontMatterSchema } = {}) {
+  enabled = options.enabled !== false
+  schema = options.schema || {}
+  document.body.setAttribute('data-front-matter-form', enabled ? '1' : '0')
+}
+
+/** 插件返回的补全值 */
+export function setFrontMatterValues(key: string, values: string[]) {
+  knownValues.set(key, values)
+  const datalist = document.getElementById(`front-matter-values-${key}`)
+  if (datalist) {
+    datalist.innerHTML = ''
+    values.forEach((v) => datalist.appendChild(new Option(v)))
+  }
+}
+
+function commit(key: string, type: FieldType, value: FieldValue | undefined) {
+  const markdown = vditor.getValue()
+  const next = updateField(markdown, key, type, value)
+  if (next !== markdown) {
+    patchValue(next)
+    postEdit()
+    render(true)
+  }
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, props: Partial<HTMLElementTagNameMap[K]> = {}, ...children: (Node | string)[]) {
+  const e = Object.assign(document.createElement(tag), props)
+  e.append(...children)
+  return e
+}
+
+function listInput(key: string, values: string[], options: any[] = undefined) {
+  const wrapper = el('div', { className: 'front-matter__list' })
+  values.forEach((v, i) => {
+    const remove = el('button', { type: 'button', title: t('removeValue'), textContent: '×' })
+    remove.onclick = () => commit(key, 'list', values.filter((_, j) => j !== i))
+    wrapper.append(el('span', { className: 'front-matter__tag' }, v, remove))
+  })
+  const datalistId = `front-matter-values-${key}`
+  const input = el('input', { type: 'text', placeholder: '+' })
+  input.setAttribute('list', datalistId)
+  const datalist = el('datalist', { id: datalistId })
+  ;(options || knownValues.get(key) || []).forEach((v) => datalist.appendChild(new Option(String(v))))
+  input.onkeydown = (e) => {
+    if ((e.key === 'Enter' || e.key === ',') && input.value.trim()) {
+      e.preventDefault()
+      commit(key, 'list', [...values, input.value.trim()])
+    }
+  }
+  input.onchange = () => {
+    // 从补全列表里选中时没有 Enter
+    if (input.value.trim() && (options || knownValues.get(key) || []).includes(input.value.trim())) {
+      commit(key, 'list', [...values, input.value.trim()])
+    }
+  }
+  if (!options && !knownValues.has(key)) {
+    vscode.postMessage({ command: 'front-matter-values', key })
+  }
+  wrapper.append(input, datalist)
+  return wrapper
+}
+
+function fieldInput(key: string, type: FieldType, value: FieldValue | undefined, prop: SchemaProperty = {}) {
+  if (type === 'raw') {
+    return el('pre', { className: 'front-matter__raw', textContent: String(value), title: t('editInSource') })
+  }
+  if (type === 'list') {
+    return listInput(key, (value as string[]) || [], prop.items?.enum)
+  }
+  if (type === 'boolean') {
+    const input = el('input', { type: 'checkbox', checked: value === true })
+    input.onchange = () => commit(key, type, input.checked)
+    return input
+  }
+  if (prop.enum) {
+    const select = el('select')
+    select.append(new Option('', ''), ...prop.enum.map((v) => new Option(String(v), String(v), false, v === value)))
+    select.onchange = () => commit(key, type, select.value || undefined)
+    return select
+  }
+  const input = el('input', {
+    type: type === 'date' ? 'date' : type === 'number' ? 'number' : 'text',
+    value: value === undefined ? '' : String(value),
+  })
+  input.onchange = () => {
+    const v = input.value.trim()
+    commit(key, type, v === '' ? undefined : type === 'number' ? Number(v) : v)
+  }
+  return input
+}
+
+function render(force = false) {
+  const markdown = vditor.getValue()
+  const fm = parseFrontMatter(markdown)
+  const properties = schema.properties || {}
+  if (!enabled || (!fm && !Object.keys(properties).length)) {
+    container && container.remove()
+    container = null
+    return
+  }
+  // 正在表单里输入时不重建, 避免丢失输入的内容
+  const focused =
+    container && container.contains(document.activeElement)
+      ? (document.activeElement.closest('[data-key]') as HTMLElement)
+      : null
+  if (focused && !force) {
+    return
+  }
+  const fields = fm ? fm.fields : []
+  const errors = fm ? validate(fm, schema) : new Map()
+  const keys = [...fields.map((f) => f.key), ...Object.keys(properties).filter((k) => !fields.some((f) => f.key === k))]
+  const rows = keys.map((key) => {
+    const field = fields.find((f) => f.key === key)
+    const prop = properties[key] || {}
+    const type = field ? field.type : schemaType(prop)
+    const row = el(
+      'div',
+      { className: 'front-matter__field', title: prop.description || '' },
+      el('span', { className: 'front-matter__key', textContent: prop.title || key }),
+      fieldInput(key, type, field?.value, prop),
+      el('span', { className: 'front-matter__error', textContent: errors.get(key) || '' })
+    )
+    row.dataset.key = key
+    return row
+  })
+  const open = container ? container.open : true
+  const next = el(
+    'details',
+    { className: 'front-matter', open },
+    el('summary', { textContent: `${t('frontMatter')}${fm ? ` (${fm.format.toUpperCase()})` : ''}${errors.size ? ` ⚠ ${errors.size}` : ''}` }),
+    ...rows
+  )
+  // 重新初始化 vditor 后旧表单已不在文档里
+  if (container && container.isConnected) {
+    container.replaceWith(next)
+  } else {
+    const content = vditor.vditor.element.querySelector('.vditor-content')
+    content.parentElement.insertBefore(next, content)
+  }
+  container = next
+  if (focused) {
+    const row = `[data-key="${CSS.escape(focused.dataset.key)}"]`
+    const input = next.querySelector<HTMLElement>(`${row} input, ${row} select`)
+    input && input.focus()
+  }
+}
+
+/** 内容变化后刷新表单 */
+export function updateFrontMatter() {
+  renderTimer && clearTimeout(renderTimer)
+  renderTimer = setTimeout(render, 200)
+}
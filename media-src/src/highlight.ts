@@ -0,0 +1,78 @@
+/**
+ * 用 CSS Custom Highlight API 给编辑区的文字加样式, 不改动 vditor 的 dom
+ */
+import { getEditorElement } from './source-map'
+
+const renderers = new Map<string, () => Range[]>()
+let observer: MutationObserver
+let timer = null
+
+export function textNodes(root: Node) {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const nodes: Text[] = []
+  while (walker.nextNode()) {
+    nodes.push(walker.currentNode as Text)
+  }
+  return nodes
+}
+
+/** 编辑区内匹配 pattern 的文字, 跳过代码 */
+export function matchRanges(
+  pattern: RegExp,
+  accept: (match: RegExpExecArray, node: Text) => boolean = () => true
+) {
+  const root = getEditorElement()
+  const ranges: Range[] = []
+  textNodes(root).forEach((node) => {
+    // 编辑区本身也是 <pre>
+    const code = node.parentElement.closest('code, pre')
+    if (code && code !== root) {
+      return
+    }
+    pattern.lastIndex = 0
+    let match: RegExpExecArray
+    while ((match = pattern.exec(node.data))) {
+      if (!match[0].length) {
+        pattern.lastIndex++
+        continue
+      }
+      if (accept(match, node)) {
+        const range = document.createRange()
+        range.setStart(node, match.index)
+        range.setEnd(node, match.index + match[0].length)
+        ranges.push(range)
+      }
+    }
+  })
+  return ranges
+}
+
+function render() {
+  const highlights = (CSS as any).highlights
+  if (!highlights || !window.vditor) {
+    return
+  }
+  renderers.forEach((getRanges, name) => {
+    highlights.set(name, new (window as any).Highlight(...getRanges()))
+  })
+}
+
+export function refreshHighlights() {
+  timer && clearTimeout(timer)
+  timer = setTimeout(render, 100)
+}
+
+/** 注册一种高亮, 编辑器内容变化时重新计算 */
+export function registerHighlight(name: string, getRanges: () => Range[]) {
+  renderers.set(name, getRanges)
+  refreshHighlights()
+}
+
+/** vditor 渲染后调用 */
+export function watchHighlights() {
+  observer && observer.disconnect()
+  // 观察整个 vditor, 切换模式后编辑区元素会变
+  observer = new MutationObserver(refreshHighlights)
+  observer.observe(vditor.vditor.element, { childList: true, subtree: true, characterData: true })
+  render()
+}
@@ -0,0 +1,48 @@
+/**
+ * 撤销/重做交给 vscode 处理, 和文本编辑器共用一个撤销栈
+ */
+import { flushEdit } from './sync'
+
+export function undo() {
+  flushEdit()
+  vscode.postMessage({ command: 'undo' })
+}
+
+export function redo() {
+  flushEdit()
+  vscode.postMessage({ command: 'redo' })
+}
+
+/** Used when the host has no undo stack to drive, e.g. no text editor is open. */
+export function localHistory(action: 'undo' | 'redo') {
+  if (action === 'undo') {
+    vditor.vditor.undo.undo(vditor.vditor)
+  } else {
+    vditor.vditor.undo.redo(vditor.vditor)
+  }
+}
+
+// 拦截 vditor 自带的撤销快捷键
+export function fixUndoHotkeys() {
+  document.addEventListener(
+    'keydown',
+    (e) => {
+      if (!window.vditor || !(e.ctrlKey || e.metaKey) || e.altKey) {
+        return
+      }
+      const key = e.key.toLowerCase()
+      let action: () => void
+      if (key === 'z') {
+        action = e.shiftKey ? redo : undo
+      } else if (key === 'y' && !e.shiftKey) {
+        action = redo
+      }
+      if (action) {
+        e.preventDefault()
+        e.stopPropagation()
+        action()
+      }
+    },
+    true
+  )
+}
@@ -0,0 +1,114 @@
+/**
+ * 上传前压缩图片: 转换格式, 限制宽度, 重新编码时顺带去掉 EXIF
+ */
+
+export interface ImageProcessing {
+  /** 转换成的格式, original 保持原格式 */
+  format: 'original' | 'webp' | 'jpeg'
+  /** 最大宽度, 0 不限制 */
+  maxWidth: number
+  /** webp/jpeg 的压缩质量 0-1 */
+  quality: number
+  /** 去掉 EXIF 等元数据 */
+  stripMetadata: boolean
+  /** 小于这个大小 (KB) 的图片不处理 */
+  minSizeKB: number
+}
+
+const Processable = ['image/png', 'image/jpeg', 'image/webp', 'image/bmp']
+
+const Extensions = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+}
+
+let processing: ImageProcessing | undefined
+
+export function setImageProcessing(options?: Partial<ImageProcessing>) {
+  processing = options && {
+    format: 'original',
+    maxWidth: 0,
+    quality: 0.85,
+    stripMetadata: false,
+    minSizeKB: 0,
+    ...options,
+  }
+}
+
+function loadImage(file: File) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(img)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error(`Cannot decode ${file.name}`))
+    }
+    img.src = url
+  })
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Cannot encode ${type}`))),
+      type,
+      quality
+    )
+  )
+}
+
+/**
+ * 按配置处理图片, 不需要处理或处理失败时返回原文件
+ */
+export async function processImage(file: File): Promise<File> {
+  if (
+    !processing ||
+    !Processable.includes(file.type) ||
+    file.size < processing.minSizeKB * 1024
+  ) {
+    return file
+  }
+  const type =
+    processing.format === 'original'
+      ? file.type === 'image/bmp'
+        ? 'image/png'
+        : file.type
+      : `image/${processing.format}`
+  try {
+    const img = await loadImage(file)
+    const scale =
+      processing.maxWidth > 0 && img.naturalWidth > processing.maxWidth
+        ? processing.maxWidth / img.naturalWidth
+        : 1
+    if (scale === 1 && type === file.type && !processing.stripMetadata) {
+      return file
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(img.naturalWidth * scale)
+    canvas.height = Math.round(img.naturalHeight * scale)
+    const ctx = canvas.getContext('2d')
+    if (type === 'image/jpeg') {
+      // jpeg 没有透明通道, 垫白底
+      ctx.fillStyle = '#fff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+    const blob = await toBlob(canvas, type, processing.quality)
+    // 只是换格式却变大了就保留原图
+    if (scale === 1 && !processing.stripMetadata && blob.size >= file.size) {
+      return file
+    }
+    // 不支持的格式浏览器会退回 png
+    const outType = blob.type || type
+    const name = file.name.replace(/(\.[^.]*)?$/, Extensions[outType] || '.png')
+    return new File([blob], name, { type: outType, lastModified: file.lastModified })
+  } catch (error) {
+    console.error('image processing failed', file.name, error)
+    return file
+  }
+}
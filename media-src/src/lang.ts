@@ -1,34 +1,145 @@
-const Langs = {
-  en_US: {
-    save: 'Save',
-    copyMarkdown: 'Copy Markdown',
-    copyHtml: 'Copy HTML',
-    resetConfig: 'Reset config',
-    resetConfirm: "Are you sure to reset the markdown-editor's config?",
-  },
+const en_US = {
+  save: 'Save',
+  copyMarkdown: 'Copy Markdown',
+  copyHtml: 'Copy HTML',
+  copyMarkdownDone: 'Copy Markdown successfully!',
+  copyHtmlDone: 'Copy HTML successfully!',
+  copyFailed: 'Copy failed! {0}',
+  resetConfig: 'Reset config',
+  resetConfirm: "Reset this file's editor options to the markdown-editor settings?",
+  resetDone: 'Reset config successfully!',
+  resetFailed: 'Reset config failed!',
+  cancel: 'Cancel',
+  confirm: 'Confirm',
+  undo: 'Undo',
+  redo: 'Redo',
+  exportHtml: 'Export HTML',
+  exportPdf: 'Export PDF',
+  exportFailed: 'Export failed! {0}',
+  attach: 'Attach File',
+  fileTooLarge: 'is too large to upload, use "Attach File" to copy it by path',
+  frontMatter: 'Front Matter',
+  removeValue: 'Remove',
+  editInSource: 'Edit in source mode',
+  required: 'Required',
+  expectedType: 'Expected {0}, got {1}',
+  mustBeOneOf: 'Must be one of {0}',
+  unknownValues: 'Unknown values: {0}',
+}
+
+type Messages = typeof en_US
+
+// 每种语言都必须翻译全部的 key, 缺少时类型检查会报错
+export const Langs: Record<string, Messages> = {
+  en_US,
   ja_JP: {
     save: '保存する',
+    copyMarkdown: 'Markdown をコピー',
+    copyHtml: 'HTML をコピー',
+    copyMarkdownDone: 'Markdown をコピーしました',
+    copyHtmlDone: 'HTML をコピーしました',
+    copyFailed: 'コピーに失敗しました: {0}',
+    resetConfig: '設定をリセット',
+    resetConfirm: 'このファイルのエディターオプションを markdown-editor の設定に戻しますか?',
+    resetDone: '設定をリセットしました',
+    resetFailed: '設定のリセットに失敗しました',
+    cancel: 'キャンセル',
+    confirm: 'OK',
+    undo: '元に戻す',
+    redo: 'やり直し',
+    exportHtml: 'HTML にエクスポート',
+    exportPdf: 'PDF にエクスポート',
+    exportFailed: 'エクスポートに失敗しました: {0}',
+    attach: 'ファイルを添付',
+    fileTooLarge: 'はアップロードするには大きすぎます。「ファイルを添付」でパスからコピーしてください',
+    frontMatter: 'フロントマター',
+    removeValue: '削除',
+    editInSource: 'ソースモードで編集してください',
+    required: '必須',
+    expectedType: '{0} が必要ですが {1} です',
+    mustBeOneOf: '{0} のいずれかにしてください',
+    unknownValues: '不明な値: {0}',
   },
   ko_KR: {
     save: '저장',
+    copyMarkdown: 'Markdown 복사',
+    copyHtml: 'HTML 복사',
+    copyMarkdownDone: 'Markdown을 복사했습니다',
+    copyHtmlDone: 'HTML을 복사했습니다',
+    copyFailed: '복사하지 못했습니다: {0}',
+    resetConfig: '설정 초기화',
+    resetConfirm: '이 파일의 편집기 옵션을 markdown-editor 설정으로 되돌리시겠습니까?',
+    resetDone: '설정을 초기화했습니다',
+    resetFailed: '설정을 초기화하지 못했습니다',
+    cancel: '취소',
+    confirm: '확인',
+    undo: '실행 취소',
+    redo: '다시 실행',
+    exportHtml: 'HTML로 내보내기',
+    exportPdf: 'PDF로 내보내기',
+    exportFailed: '내보내지 못했습니다: {0}',
+    attach: '파일 첨부',
+    fileTooLarge: '파일이 너무 커서 업로드할 수 없습니다. "파일 첨부"로 경로에서 복사하세요',
+    frontMatter: 'Front Matter',
+    removeValue: '삭제',
+    editInSource: '소스 모드에서 편집하세요',
+    required: '필수',
+    expectedType: '{0} 형식이어야 하지만 {1} 입니다',
+    mustBeOneOf: '{0} 중 하나여야 합니다',
+    unknownValues: '알 수 없는 값: {0}',
   },
   zh_CN: {
     save: '保存',
     copyMarkdown: '复制 Markdown',
     copyHtml: '复制 HTML',
+    copyMarkdownDone: '已复制 Markdown',
+    copyHtmlDone: '已复制 HTML',
+    copyFailed: '复制失败! {0}',
     resetConfig: '重置配置',
-    resetConfirm: '确定要重置 markdown-editor 的配置么?',
+    resetConfirm: '确定要把这个文件的编辑器选项重置为 markdown-editor 的设置么?',
+    resetDone: '已重置配置',
+    resetFailed: '重置配置失败!',
+    cancel: '取消',
+    confirm: '确定',
+    undo: '撤销',
+    redo: '重做',
+    exportHtml: '导出 HTML',
+    exportPdf: '导出 PDF',
+    exportFailed: '导出失败! {0}',
+    attach: '添加附件',
+    fileTooLarge: '太大无法上传, 请使用"添加附件"按路径复制',
+    frontMatter: 'Front Matter',
+    removeValue: '删除',
+    editInSource: '请在源码模式下编辑',
+    required: '必填',
+    expectedType: '应为 {0}, 实际是 {1}',
+    mustBeOneOf: '必须是 {0} 之一',
+    unknownValues: '未知的值: {0}',
   },
 }
 
-export const lang = (() => {
-  let l: any = navigator.language.replace('-', '_')
-  if (!Langs[l]) {
-    l = 'en_US'
-  }
-  return l
-})()
+// vscode.env.language 是 en, zh-cn, ja 这样的格式, 转成 vditor 的语言名
+const VscodeLanguages = {
+  en: 'en_US',
+  ja: 'ja_JP',
+  ko: 'ko_KR',
+  'zh-cn': 'zh_CN',
+}
+
+function toLang(language: string) {
+  language = (language || '').toLowerCase()
+  return VscodeLanguages[language] || VscodeLanguages[language.split('-')[0]] || 'en_US'
+}
+
+// init 消息带来 vscode 的显示语言之前先用浏览器的
+export let lang = toLang(navigator.language)
+
+/** 使用 vscode 的显示语言, 在创建 vditor 之前调用 */
+export function setLang(language: string) {
+  lang = toLang(language)
+}
 
-export function t(msg: string) {
-  return (Langs[lang] && Langs[lang][msg]) || Langs.en_US[msg]
+export function t(msg: keyof Messages, ...args: (string | number)[]) {
+  const text = (Langs[lang] && Langs[lang][msg]) || en_US[msg]
+  return text.replace(/\{(\d+)\}/g, (m, i) => (i < args.length ? String(args[i]) : m))
 }
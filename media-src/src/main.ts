@@ -3,42 +3,86 @@ import './preload'
 import {
   fileToBase64,
   fixCut,
-  fixDarkTheme,
   fixLinkClick,
   fixPanelHover,
   handleToolbarClick,
-  saveVditorOptions,
+  markOptionsSaved,
 } from './utils'
 
 import { merge } from 'lodash'
 import Vditor from 'vditor'
-import { format } from 'date-fns'
 import 'vditor/dist/index.css'
-import { t, lang } from './lang'
-import { toolbar } from './toolbar'
+import { t, lang, setLang } from './lang'
+import { getToolbar } from './toolbar'
 import { fixTableIr } from './fix-table-ir'
+import { patchValue } from './patch'
+import {
+  getBlockRanges,
+  getCaretOffset,
+  getScrollAnchor,
+  mapOffset,
+  restoreScrollAnchor,
+  setCaretOffset,
+} from './source-map'
+import { revealLine, setupScrollSync, watchEditor } from './scroll-sync'
+import {
+  flushEdit,
+  hasPendingEdit,
+  markSynced,
+  postEdit,
+  setBaseVersion,
+} from './sync'
+import { fixUndoHotkeys, localHistory } from './history'
+import { exportDocument } from './export'
+import { processImage, setImageProcessing } from './image'
+import { replaceImageUrls, setupPaste } from './paste'
+import { resolveWikiFiles, setupWikiLinks, wikiHint } from './wiki'
+import { watchHighlights } from './highlight'
+import { setBrokenLinks, setupBrokenLinks } from './broken-links'
+import { runAction } from './actions'
+import { showDiagramSource } from './restricted'
+import { applyTheme, setPinnedThemes, themeOptions } from './theme'
+import {
+  setFrontMatterOptions,
+  setFrontMatterValues,
+  updateFrontMatter,
+} from './front-matter'
 import './main.css'
 
+const MaxUploadSize = 10 * 1024 * 1024
+
 function initVditor(msg) {
   console.log('msg', msg)
-  let inputTimer
-  let defaultOptions: any = {}
-  if (msg.theme === 'dark') {
-    // vditor.setTheme('dark', 'dark')
-    defaultOptions = merge(defaultOptions, {
-      theme: 'dark',
-      preview: {
-        theme: {
-          current: 'dark',
-        },
-      }
-    })
+  // 设置 (用户/工作区) 加上这个文件自己的选项
+  const editor = (msg.options && msg.options.editor) || {}
+  setPinnedThemes(editor)
+  let defaultOptions: any = themeOptions(msg.theme)
+  if (editor.contentTheme) {
+    defaultOptions = merge(defaultOptions, { preview: { theme: { current: editor.contentTheme } } })
   }
+  if (editor.codeTheme) {
+    defaultOptions = merge(defaultOptions, { preview: { hljs: { style: editor.codeTheme } } })
+  }
+  if (editor.outline !== undefined) {
+    defaultOptions = merge(defaultOptions, { outline: { enable: editor.outline } })
+  }
+  const restricted = !!(msg.options && msg.options.restricted)
+  // 插件自带的 vditor 资源或 markdown-editor.cdn, 不依赖外网
+  const cdn = msg.options && msg.options.cdn
   defaultOptions = merge(defaultOptions, msg.options, {
     preview: {
       math: {
         inlineDigit: true,
-      }
+      },
+      // 保存的配置里有上次的主题路径, 跟着 cdn 更新
+      theme: cdn ? { path: `${cdn}/dist/css/content-theme` } : {},
+      // 保存的 preview 配置里也有 markdown, 这里覆盖掉
+      markdown: {
+        sanitize: restricted || !(msg.options && msg.options.sanitizeHtml === false),
+        // 受限模式下编辑区的代码块不渲染成图表
+        codeBlockPreview: !restricted,
+      },
+      transform: restricted ? showDiagramSource : undefined,
     }
   })
   if (window.vditor) {
@@ -51,48 +95,76 @@ function initVditor(msg) {
     minHeight: '100%',
     lang,
     value: msg.content,
-    mode: 'ir',
+    mode: editor.mode || 'ir',
     cache: { enable: false },
-    toolbar,
+    toolbar: getToolbar(msg.toolbar),
     toolbarConfig: { pin: true },
+    hint: { extend: [wikiHint], ...(cdn ? { emojiPath: `${cdn}/dist/images/emoji` } : {}) },
     ...defaultOptions,
     after() {
-      fixDarkTheme()
       handleToolbarClick()
       fixTableIr()
       fixPanelHover()
+      watchEditor()
+      watchHighlights()
+      updateFrontMatter()
+      markOptionsSaved()
+      markSynced(vditor.getValue(), msg.version)
     },
     input() {
-      inputTimer && clearTimeout(inputTimer)
-      inputTimer = setTimeout(() => {
-        vscode.postMessage({ command: 'edit', content: vditor.getValue() })
-      }, 100)
+      postEdit()
+      updateFrontMatter()
     },
     upload: {
       url: '/fuzzy', // 没有 url 参数粘贴图片无法上传 see: https://github.com/Vanessa219/vditor/blob/d7628a0a7cfe5d28b055469bf06fb0ba5cfaa1b2/src/ts/util/fixBrowserBehavior.ts#L1409
       async handler(files) {
-        // console.log('files', files)
+        // 大文件走 base64 太慢, 让用户用附件按钮按路径复制
+        const tooLarge = files.filter((f) => f.size > MaxUploadSize)
+        files = files.filter((f) => f.size <= MaxUploadSize)
+        // 文件名由插件按 imageFileNameTemplate 生成
         let fileInfos = await Promise.all(
           files.map(async (f) => {
-            const d = new Date()
+            const file = await processImage(f)
             return {
-              base64: await fileToBase64(f),
-              name: `${format(new Date(), 'yyyyMMdd_HHmmss')}_${f.name}`.replace(
-                /[^\w-_.]+/,
-                '_'
-              ),
+              base64: await fileToBase64(file),
+              name: file.name,
             }
           })
         )
-        vscode.postMessage({
-          command: 'upload',
-          files: fileInfos,
-        })
+        if (fileInfos.length) {
+          vscode.postMessage({
+            command: 'upload',
+            files: fileInfos,
+          })
+        }
+        if (tooLarge.length) {
+          return `${tooLarge.map((f) => f.name).join(', ')} ${t('fileTooLarge')}`
+        }
       },
     },
   })
 }
 
+// 外部修改时保持光标和滚动位置
+function applyExternalUpdate(msg) {
+  const ranges = getBlockRanges()
+  const caret = getCaretOffset(ranges)
+  const anchor = getScrollAnchor(ranges)
+  patchValue(msg.content)
+  markSynced(vditor.getValue(), msg.version)
+  updateFrontMatter()
+  const newRanges = getBlockRanges()
+  if (anchor) {
+    restoreScrollAnchor(
+      { ...anchor, offset: mapOffset(anchor.offset, msg.changes) },
+      newRanges
+    )
+  }
+  if (caret !== undefined) {
+    setCaretOffset(mapOffset(caret, msg.changes), newRanges)
+  }
+}
+
 window.addEventListener('message', (e) => {
   const msg = e.data
   // console.log('msg from vscode', msg)
@@ -104,40 +176,79 @@ window.addEventListener('message', (e) => {
         } else {
           document.body.setAttribute('data-use-vscode-theme-color', '0')
         }
+        setLang(msg.language)
+        setImageProcessing(msg.options && msg.options.imageProcessing)
+        setFrontMatterOptions(msg.options && msg.options.frontMatter)
         try {
           initVditor(msg)
         } catch (error) {
-          // reset options when error
+          // reset options when error, 只丢掉保存的编辑器选项, 受限模式/cdn/sanitize 和工具栏保持不变
           console.error(error)
-          initVditor({content: msg.content})
-          saveVditorOptions()
+          const { restricted, cdn, sanitizeHtml } = msg.options || ({} as any)
+          initVditor({
+            content: msg.content,
+            version: msg.version,
+            theme: msg.theme,
+            toolbar: msg.toolbar,
+            options: { restricted, cdn, sanitizeHtml },
+          })
+          vscode.postMessage({ command: 'reset-config' })
         }
         console.log('initVditor')
+      } else if (hasPendingEdit()) {
+        // vscode merges our unsent edit with this update and sends the result back
+        flushEdit()
       } else {
-        vditor.setValue(msg.content)
-        console.log('setValue')
+        applyExternalUpdate(msg)
+        console.log('patchValue')
       }
       break
     }
+    case 'ack': {
+      setBaseVersion(msg.version)
+      break
+    }
+    case 'history': {
+      localHistory(msg.action)
+      break
+    }
+    case 'export': {
+      exportDocument(msg.format)
+      break
+    }
+    case 'theme':
+      if (window.vditor) {
+        applyTheme(msg.theme)
+        // 跟随 vscode 的主题不算文件自己的选项
+        markOptionsSaved()
+      }
+      break
+    case 'run-action':
+      runAction(msg.action)
+      break
+    case 'reveal-line': {
+      revealLine(msg.line, msg.reason)
+      break
+    }
     case 'uploaded': {
-      msg.files.forEach((f) => {
-        if (f.endsWith('.wav')) {
-          vditor.insertValue(
-            `\n\n<audio controls="controls" src="${f}"></audio>\n\n`
-          )
-        } else {
-          const i = new Image()
-          i.src = f
-          i.onload = () => {
-            vditor.insertValue(`\n\n![](${f})\n\n`)
-          }
-          i.onerror = () => {
-            vditor.insertValue(`\n\n[${f.split('/').slice(-1)[0]}](${f})\n\n`)
-          }
-        }
+      // 插入的内容由插件按 mediaTemplates 生成
+      msg.snippets.forEach((snippet) => {
+        vditor.insertValue(`\n\n${snippet}\n\n`)
       })
       break
     }
+    case 'wiki-files':
+      resolveWikiFiles(msg.id, msg.files)
+      break
+    case 'broken-links':
+      setBrokenLinks(msg.links)
+      break
+    case 'images-downloaded':
+      replaceImageUrls(msg.images)
+      break
+    case 'front-matter-values':
+      setFrontMatterValues(msg.key, msg.values)
+      break
     default:
       break
   }
@@ -145,5 +256,10 @@ window.addEventListener('message', (e) => {
 
 fixLinkClick()
 fixCut()
+setupScrollSync()
+fixUndoHotkeys()
+setupPaste()
+setupWikiLinks()
+setupBrokenLinks()
 
 vscode.postMessage({ command: 'ready' })
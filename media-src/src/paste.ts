@@ -0,0 +1,76 @@
+/**
+ * 粘贴网页/Google Docs 内容时先清理 html 再交给 vditor 转 markdown, 远程图片交给插件下载
+ */
+import { processPasteCode } from 'vditor/src/ts/util/processCode'
+import { cleanHtml, remoteImages } from './clean-html'
+import { patchValue } from './patch'
+import { postEdit } from './sync'
+
+let dispatching = false
+
+// 在 vditor 之前拿到粘贴事件, 换成清理过的 html 重新派发
+export function setupPaste() {
+  document.addEventListener(
+    'paste',
+    (e) => {
+      if (dispatching || !window.vditor || !e.clipboardData) {
+        return
+      }
+      const target = e.target as HTMLElement
+      if (!target.closest || !target.closest('.vditor-content') || target.closest('code')) {
+        return
+      }
+      const html = e.clipboardData.getData('text/html')
+      const text = e.clipboardData.getData('text/plain')
+      // 从 vscode/IDE 复制的代码交给 vditor 识别
+      if (!html.trim() || processPasteCode(html, text)) {
+        return
+      }
+      e.preventDefault()
+      e.stopPropagation()
+      const cleaned = cleanHtml(html)
+      const data = new DataTransfer()
+      data.setData('text/html', cleaned)
+      data.setData('text/plain', text)
+      dispatching = true
+      try {
+        target.dispatchEvent(
+          new ClipboardEvent('paste', {
+            clipboardData: data,
+            bubbles: true,
+            cancelable: true,
+          })
+        )
+      } finally {
+        dispatching = false
+      }
+      const urls = remoteImages(cleaned)
+      if (urls.length) {
+        vscode.postMessage({ command: 'download-images', urls })
+      }
+    },
+    true
+  )
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 图片下载完后把链接换成相对路径
+ */
+export function replaceImageUrls(images: { url: string; path: string }[]) {
+  let value = vditor.getValue()
+  const original = value
+  images.forEach(({ url, path }) => {
+    const escaped = escapeRegExp(url)
+    value = value
+      .replace(new RegExp(`(\\]\\(\\s*<?)${escaped}(?=>?[\\s)])`, 'g'), (_, head) => head + path)
+      .replace(new RegExp(`(\\ssrc=["'])${escaped}(?=["'])`, 'g'), (_, head) => head + path)
+  })
+  if (value !== original) {
+    patchValue(value)
+    postEdit()
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * 外部修改时只替换变化的块, 避免 setValue 整篇重新渲染
+ */
+import { processCodeRender } from 'vditor/src/ts/util/processCode'
+import { topBlocks, toMarkdown } from './source-map'
+
+function isSameBlock(mode: string, a: HTMLElement, b: HTMLElement) {
+  // rendered code/math previews differ from fresh lute output, fall back to the source
+  return a.outerHTML === b.outerHTML || toMarkdown(mode, a) === toMarkdown(mode, b)
+}
+
+function renderPreviews(mode: string, blocks: HTMLElement[]) {
+  blocks.forEach((block) => {
+    block
+      .querySelectorAll(`.vditor-${mode}__preview[data-render='2']`)
+      .forEach((item: HTMLElement) => {
+        processCodeRender(item, vditor.vditor)
+        if (mode === 'wysiwyg') {
+          item.previousElementSibling.setAttribute('style', 'display:none')
+        }
+      })
+  })
+}
+
+/**
+ * Replace the editor content with `markdown`, re-rendering only the blocks
+ * that changed.
+ */
+export function patchValue(markdown: string) {
+  if (vditor.getValue() === markdown) {
+    return
+  }
+  const mode = vditor.getCurrentMode()
+  if (mode === 'sv') {
+    vditor.setValue(markdown)
+    return
+  }
+  const root = vditor.vditor[mode].element as HTMLElement
+  const lute = vditor.vditor.lute
+  const template = document.createElement('div')
+  template.innerHTML =
+    mode === 'ir' ? lute.Md2VditorIRDOM(markdown) : lute.Md2VditorDOM(markdown)
+
+  const oldBlocks = topBlocks(root)
+  const newBlocks = Array.from(template.children) as HTMLElement[]
+  let head = 0
+  while (
+    head < oldBlocks.length &&
+    head < newBlocks.length &&
+    isSameBlock(mode, oldBlocks[head], newBlocks[head])
+  ) {
+    head++
+  }
+  let tail = 0
+  while (
+    tail < oldBlocks.length - head &&
+    tail < newBlocks.length - head &&
+    isSameBlock(
+      mode,
+      oldBlocks[oldBlocks.length - 1 - tail],
+      newBlocks[newBlocks.length - 1 - tail]
+    )
+  ) {
+    tail++
+  }
+
+  const removed = oldBlocks.slice(head, oldBlocks.length - tail)
+  const added = newBlocks.slice(head, newBlocks.length - tail)
+  const ref = tail
+    ? oldBlocks[oldBlocks.length - tail]
+    : oldBlocks.length
+    ? oldBlocks[oldBlocks.length - 1].nextSibling
+    : root.firstChild
+  removed.forEach((el) => el.remove())
+  added.forEach((el) => root.insertBefore(el, ref))
+  renderPreviews(mode, added)
+
+  vditor.vditor.undo.addToUndoStack(vditor.vditor)
+  vditor.vditor.outline.render(vditor.vditor)
+}
@@ -1,2 +1,15 @@
 // fix cannot find global
 ;(window as any)['global'] = window['global'] || globalThis
+
+// vditor 动态加载的脚本 (图标是内联脚本) 需要带上 CSP 的 nonce
+const nonce = (document.currentScript as HTMLScriptElement)?.nonce
+if (nonce) {
+  const createElement = document.createElement
+  document.createElement = function (tagName: string, options?: ElementCreationOptions) {
+    const el = createElement.call(document, tagName, options)
+    if (el instanceof HTMLScriptElement) {
+      el.nonce = nonce
+    }
+    return el
+  } as typeof document.createElement
+}
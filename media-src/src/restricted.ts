@@ -0,0 +1,33 @@
+/**
+ * 不受信任的工作区 (Restricted Mode): 会执行脚本的图表渲染器不运行, 只显示源码
+ */
+
+// vditor 按这些 language-xxx 类名渲染图表, 见 vditor/src/ts/markdown/adapterRender.ts
+const Diagrams = ['mermaid', 'flowchart', 'echarts', 'mindmap', 'graphviz', 'plantuml', 'abc', 'markmap', 'smiles', 'wavedrom']
+
+// 渲染器不管标签名, 文档里手写的 html 只要带上类名也会被渲染
+export const DiagramSelector = Diagrams.map((d) => `.language-${d}`).join(',')
+
+/**
+ * preview.transform: 把图表换成普通代码块, 预览和导出时就不会渲染.
+ * 用 DOM 而不是正则处理, 嵌套的 div、单引号和多个类名都不会漏掉
+ */
+export function showDiagramSource(html: string) {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  // 从外往里处理, 外层换掉后里面的节点已经变成文本
+  let diagram: Element | null
+  while ((diagram = template.content.querySelector(DiagramSelector))) {
+    if (diagram.tagName === 'CODE' && diagram.parentElement && diagram.parentElement.tagName === 'PRE') {
+      diagram.className = 'language-plaintext'
+      continue
+    }
+    const pre = document.createElement('pre')
+    const code = document.createElement('code')
+    code.className = 'language-plaintext'
+    code.textContent = diagram.textContent
+    pre.appendChild(code)
+    diagram.replaceWith(pre)
+  }
+  return template.innerHTML
+}
@@ -0,0 +1,148 @@
+/**
+ * 与 vscode 文本编辑器同步滚动和光标所在行
+ */
+import {
+  BlockRange,
+  blockAtOffset,
+  getBlockRanges,
+  getCaretOffset,
+  getEditorElement,
+  getScrollAnchor,
+} from './source-map'
+
+let cachedRanges: { value: string; ranges: BlockRange[] } = null
+// ignore the scroll events caused by revealLine itself
+let ignoreScrollUntil = 0
+let lastCursorLine = -1
+// lines revealed before vditor has rendered, e.g. when opened from a link
+let editorReady = false
+let pendingReveal: number = null
+
+function ranges() {
+  if (!cachedRanges) {
+    const value = vditor.getValue()
+    cachedRanges = { value, ranges: getBlockRanges(value) }
+  }
+  return cachedRanges
+}
+
+export function offsetToLine(value: string, offset: number) {
+  let line = 0
+  for (let i = value.indexOf('\n'); i >= 0 && i < offset; i = value.indexOf('\n', i + 1)) {
+    line++
+  }
+  return line
+}
+
+export function lineToOffset(value: string, line: number) {
+  let offset = 0
+  for (let i = 0; i < line; i++) {
+    const next = value.indexOf('\n', offset)
+    if (next < 0) {
+      return value.length
+    }
+    offset = next + 1
+  }
+  return offset
+}
+
+/** Scroll the editor so the given source line is visible. */
+export function revealLine(line: number, reason: 'scroll' | 'cursor' = 'scroll') {
+  if (!editorReady) {
+    pendingReveal = line
+    return
+  }
+  const { value, ranges: blocks } = ranges()
+  const offset = lineToOffset(value, line)
+  const block = blockAtOffset(blocks, offset)
+  if (!block) {
+    return
+  }
+  const root = getEditorElement()
+  const rootRect = root.getBoundingClientRect()
+  const rect = block.el.getBoundingClientRect()
+  // long blocks (code, tables) are scrolled proportionally
+  const fraction =
+    block.end > block.start
+      ? Math.min(1, Math.max(0, (offset - block.start) / (block.end - block.start)))
+      : 0
+  const top = rect.top - rootRect.top + fraction * rect.height
+  if (reason === 'cursor' && top >= 0 && top <= rootRect.height) {
+    return
+  }
+  ignoreScrollUntil = Date.now() + 300
+  root.scrollTop += reason === 'cursor' ? top - rootRect.height / 2 : top
+}
+
+function topVisibleLine() {
+  const { value, ranges: blocks } = ranges()
+  const anchor = getScrollAnchor(blocks)
+  if (!anchor) {
+    return 0
+  }
+  const block = blockAtOffset(blocks, anchor.offset)
+  const height = block.el.getBoundingClientRect().height
+  const fraction = height > 0 ? Math.min(1, -anchor.top / height) : 0
+  const offset =
+    block.start + Math.max(0, Math.round(fraction * (block.end - block.start)))
+  return offsetToLine(value, offset)
+}
+
+// 每次创建 vditor 后调用, 内容变化时清除行号映射缓存
+export function watchEditor() {
+  cachedRanges = null
+  new MutationObserver(() => {
+    cachedRanges = null
+  }).observe(vditor.vditor.element, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+  })
+  editorReady = true
+  if (pendingReveal !== null) {
+    const line = pendingReveal
+    pendingReveal = null
+    setTimeout(() => revealLine(line))
+  }
+}
+
+export function setupScrollSync() {
+  let scrollTimer
+  document.addEventListener(
+    'scroll',
+    (e) => {
+      if (
+        !window.vditor ||
+        e.target !== getEditorElement() ||
+        Date.now() < ignoreScrollUntil
+      ) {
+        return
+      }
+      scrollTimer && clearTimeout(scrollTimer)
+      scrollTimer = setTimeout(() => {
+        vscode.postMessage({ command: 'scroll', line: topVisibleLine() })
+      }, 50)
+    },
+    true
+  )
+
+  let cursorTimer
+  document.addEventListener('selectionchange', () => {
+    cursorTimer && clearTimeout(cursorTimer)
+    cursorTimer = setTimeout(() => {
+      if (!window.vditor) {
+        return
+      }
+      const { value, ranges: blocks } = ranges()
+      const offset = getCaretOffset(blocks)
+      if (offset === undefined) {
+        return
+      }
+      const line = offsetToLine(value, offset)
+      if (line !== lastCursorLine) {
+        lastCursorLine = line
+        vscode.postMessage({ command: 'cursor-moved', line })
+      }
+    }, 100)
+  })
+}
@@ -0,0 +1,169 @@
+/**
+ * vditor DOM 与 markdown 源码偏移量之间的映射
+ */
+
+export interface SourceChange {
+  start: number
+  end: number
+  text: string
+}
+
+export interface BlockRange {
+  el: HTMLElement
+  start: number
+  end: number
+}
+
+export interface ScrollAnchor {
+  offset: number
+  top: number
+}
+
+export function getEditorElement() {
+  return vditor.vditor[vditor.getCurrentMode()].element as HTMLElement
+}
+
+export function topBlocks(root: Element) {
+  return Array.from(root.children).filter(
+    (el) => el.getAttribute('data-block') === '0'
+  ) as HTMLElement[]
+}
+
+export function toMarkdown(mode: string, el: HTMLElement) {
+  const lute = vditor.vditor.lute
+  return mode === 'ir'
+    ? lute.VditorIRDOM2Md(el.outerHTML)
+    : lute.VditorDOM2Md(el.outerHTML)
+}
+
+/** Locate every top level block of the editor in the markdown source. */
+export function getBlockRanges(value = vditor.getValue()): BlockRange[] {
+  const mode = vditor.getCurrentMode()
+  const root = getEditorElement()
+  if (mode === 'sv') {
+    // sv renders the source itself, text offsets are source offsets
+    return [{ el: root, start: 0, end: value.length }]
+  }
+  let pos = 0
+  return topBlocks(root).map((el) => {
+    const md = toMarkdown(mode, el).trim()
+    const firstLine = md.split('\n')[0]
+    let start = firstLine ? value.indexOf(firstLine, pos) : -1
+    if (start < 0) {
+      start = pos
+    }
+    const end = Math.min(value.length, start + md.length)
+    pos = end
+    return { el, start, end }
+  })
+}
+
+function findBlock(ranges: BlockRange[], node: Node) {
+  return ranges.find((r) => r.el === node || r.el.contains(node))
+}
+
+function textOffsetIn(el: HTMLElement, node: Node, offset: number) {
+  if (node.nodeType !== Node.TEXT_NODE) {
+    // offset counts child nodes, measure the text before that child
+    const range = document.createRange()
+    range.setStart(el, 0)
+    range.setEnd(node, offset)
+    return range.toString().length
+  }
+  let count = 0
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode()) {
+    if (walker.currentNode === node) {
+      return count + offset
+    }
+    count += walker.currentNode.textContent.length
+  }
+  return count
+}
+
+/** Caret position as an offset in the markdown source. */
+export function getCaretOffset(ranges = getBlockRanges()) {
+  const selection = window.getSelection()
+  if (!selection.rangeCount || !getEditorElement().contains(selection.anchorNode)) {
+    return
+  }
+  const block = findBlock(ranges, selection.anchorNode)
+  if (!block) {
+    return
+  }
+  const inner = textOffsetIn(block.el, selection.anchorNode, selection.anchorOffset)
+  return block.start + Math.min(inner, block.end - block.start)
+}
+
+/** Block containing the source offset, or the nearest one before it. */
+export function blockAtOffset(ranges: BlockRange[], offset: number) {
+  let found = ranges[0]
+  for (const r of ranges) {
+    if (r.start > offset) {
+      break
+    }
+    found = r
+  }
+  return found
+}
+
+export function setCaretOffset(offset: number, ranges = getBlockRanges()) {
+  const block = blockAtOffset(ranges, offset)
+  if (!block) {
+    return
+  }
+  let rest = Math.max(0, offset - block.start)
+  const walker = document.createTreeWalker(block.el, NodeFilter.SHOW_TEXT)
+  let last: Node = null
+  while (walker.nextNode()) {
+    last = walker.currentNode
+    const len = last.textContent.length
+    if (rest <= len) {
+      window.getSelection().collapse(last, rest)
+      return
+    }
+    rest -= len
+  }
+  if (last) {
+    window.getSelection().collapse(last, last.textContent.length)
+  } else {
+    window.getSelection().collapse(block.el, 0)
+  }
+}
+
+/** First visible block and how far it sits from the top of the editor. */
+export function getScrollAnchor(ranges = getBlockRanges()): ScrollAnchor {
+  const rootTop = getEditorElement().getBoundingClientRect().top
+  for (const r of ranges) {
+    const rect = r.el.getBoundingClientRect()
+    if (rect.bottom > rootTop) {
+      return { offset: r.start, top: rect.top - rootTop }
+    }
+  }
+}
+
+export function restoreScrollAnchor(anchor: ScrollAnchor, ranges = getBlockRanges()) {
+  const block = blockAtOffset(ranges, anchor.offset)
+  if (!block) {
+    return
+  }
+  const root = getEditorElement()
+  const top = block.el.getBoundingClientRect().top - root.getBoundingClientRect().top
+  root.scrollTop += top - anchor.top
+}
+
+/** Map an offset in the old source through the changes to the new source. */
+export function mapOffset(offset: number, changes: SourceChange[] = []) {
+  let delta = 0
+  for (const c of changes) {
+    if (c.start >= offset) {
+      break
+    }
+    if (c.end > offset) {
+      // inside a replaced range, keep the caret within the replacement
+      return c.start + delta + Math.min(offset - c.start, c.text.length)
+    }
+    delta += c.text.length - (c.end - c.start)
+  }
+  return offset + delta
+}
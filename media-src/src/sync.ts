@@ -0,0 +1,46 @@
+/**
+ * 把 vditor 的修改同步给 vscode
+ */
+
+let editTimer
+let lastPosted: string
+// document version the webview content is based on, lets vscode detect concurrent edits
+let baseVersion: number
+
+/**
+ * Post the current content to vscode after `delay` ms. Vditor calls `input`
+ * once per undo step, so every posted edit becomes one VS Code undo stop.
+ */
+export function postEdit(delay = 100) {
+  editTimer && clearTimeout(editTimer)
+  editTimer = setTimeout(flushEdit, delay)
+}
+
+/** Post pending changes right away, e.g. before undo or save. */
+export function flushEdit() {
+  editTimer && clearTimeout(editTimer)
+  editTimer = null
+  const content = vditor.getValue()
+  if (content === lastPosted) {
+    return
+  }
+  lastPosted = content
+  vscode.postMessage({ command: 'edit', content, version: baseVersion })
+}
+
+/** True when the editor has changes vscode has not received yet. */
+export function hasPendingEdit() {
+  return vditor.getValue() !== lastPosted
+}
+
+/** Remember content received from vscode so it is not echoed back. */
+export function markSynced(content: string, version?: number) {
+  lastPosted = content
+  setBaseVersion(version)
+}
+
+export function setBaseVersion(version?: number) {
+  if (version !== undefined) {
+    baseVersion = version
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * 跟随 vscode 的颜色主题切换编辑器、内容和代码高亮主题
+ */
+
+// 插件发来的主题, 见 extension.ts 的 themeKind
+export type ThemeKind = 'light' | 'dark' | 'high-contrast' | 'high-contrast-light'
+
+const CodeThemes: Record<ThemeKind, string> = {
+  light: 'github',
+  dark: 'github-dark',
+  'high-contrast': 'a11y-dark',
+  'high-contrast-light': 'a11y-light',
+}
+
+// 设置/文件选项/工具栏里指定了的内容和代码主题不跟随 vscode, 编辑器界面总是跟随
+const pinned = { contentTheme: false, codeTheme: false }
+
+export function setPinnedThemes(editor: { contentTheme?: string; codeTheme?: string }) {
+  pinned.contentTheme = !!editor.contentTheme
+  pinned.codeTheme = !!editor.codeTheme
+}
+
+// 用户在工具栏里选了主题
+export function pinTheme(key: keyof typeof pinned) {
+  pinned[key] = true
+}
+
+const isDark = (kind: ThemeKind) => kind === 'dark' || kind === 'high-contrast'
+
+function setHighContrast(kind: ThemeKind) {
+  if (kind.startsWith('high-contrast')) {
+    document.body.setAttribute('data-high-contrast', isDark(kind) ? 'dark' : 'light')
+  } else {
+    document.body.removeAttribute('data-high-contrast')
+  }
+}
+
+/**
+ * 初始化 vditor 时的主题选项
+ */
+export function themeOptions(kind: ThemeKind = 'light') {
+  setHighContrast(kind)
+  const options: any = { theme: isDark(kind) ? 'dark' : 'classic', preview: {} }
+  if (!pinned.contentTheme) {
+    options.preview.theme = { current: isDark(kind) ? 'dark' : 'light' }
+  }
+  if (!pinned.codeTheme) {
+    options.preview.hljs = { style: CodeThemes[kind] }
+  }
+  return options
+}
+
+/**
+ * vscode 切换了颜色主题, 不重建编辑器
+ */
+export function applyTheme(kind: ThemeKind) {
+  const options = themeOptions(kind)
+  vditor.setTheme(
+    options.theme,
+    options.preview.theme && options.preview.theme.current,
+    options.preview.hljs && options.preview.hljs.style
+  )
+}
@@ -1,23 +1,144 @@
 import { t } from "./lang"
 import { confirm } from "./utils"
+import { redo, undo } from "./history"
+import { flushEdit } from "./sync"
+import { exportDocument } from "./export"
 
-export const toolbar = [
-	{
-	  hotkey: '⌘s',
-	  name: 'save',
-	  tipPosition: 's',
-	  tip: t('save'),
-	  className: 'save',
-	  icon:
-		'<svg viewBox="0 0 1024 1024" xmlns="http://www.w3.org/2000/svg" width="32" height="32"><path d="M810.667 938.667H213.333a128 128 0 01-128-128V213.333a128 128 0 01128-128h469.334a42.667 42.667 0 0130.293 12.374L926.293 311.04a42.667 42.667 0 0112.374 30.293v469.334a128 128 0 01-128 128zm-597.334-768a42.667 42.667 0 00-42.666 42.666v597.334a42.667 42.667 0 0042.666 42.666h597.334a42.667 42.667 0 0042.666-42.666v-451.84l-188.16-188.16z"/><path d="M725.333 938.667A42.667 42.667 0 01682.667 896V597.333H341.333V896A42.667 42.667 0 01256 896V554.667A42.667 42.667 0 01298.667 512h426.666A42.667 42.667 0 01768 554.667V896a42.667 42.667 0 01-42.667 42.667zM640 384H298.667A42.667 42.667 0 01256 341.333V128a42.667 42.667 0 0185.333 0v170.667H640A42.667 42.667 0 01640 384z"/></svg>',
-	  click() {
-		vscode.postMessage({
-		  command: 'save',
-		  content: vditor.getValue(),
-		})
-	  },
-	},
+// markdown-editor.toolbar 里的自定义按钮, 插件已校验过
+interface ToolbarAction {
+	name: string
+	tip?: string
+	icon?: string
+	hotkey?: string
+	insert?: string
+	prefix?: string
+	suffix?: string
+	command?: string
+	toolbar?: (string | ToolbarAction)[]
+}
+
+// 插件自己实现的按钮, 每次创建 vditor 时生成, tip 跟随当前语言
+function builtinItems() {
+	const vscodeUndo = {
+		name: 'vscode-undo',
+		tip: t('undo'),
+		icon: '<svg><use xlink:href="#vditor-icon-undo"></use></svg>',
+		click: undo,
+	}
+	const vscodeRedo = {
+		name: 'vscode-redo',
+		tip: t('redo'),
+		icon: '<svg><use xlink:href="#vditor-icon-redo"></use></svg>',
+		click: redo,
+	}
+	return {
+		save: {
+			hotkey: '⌘s',
+			name: 'save',
+			tipPosition: 's',
+			tip: t('save'),
+			className: 'save',
+			icon:
+				'<svg viewBox="0 0 1024 1024" xmlns="http://www.w3.org/2000/svg" width="32" height="32"><path d="M810.667 938.667H213.333a128 128 0 01-128-128V213.333a128 128 0 01128-128h469.334a42.667 42.667 0 0130.293 12.374L926.293 311.04a42.667 42.667 0 0112.374 30.293v469.334a128 128 0 01-128 128zm-597.334-768a42.667 42.667 0 00-42.666 42.666v597.334a42.667 42.667 0 0042.666 42.666h597.334a42.667 42.667 0 0042.666-42.666v-451.84l-188.16-188.16z"/><path d="M725.333 938.667A42.667 42.667 0 01682.667 896V597.333H341.333V896A42.667 42.667 0 01256 896V554.667A42.667 42.667 0 01298.667 512h426.666A42.667 42.667 0 01768 554.667V896a42.667 42.667 0 01-42.667 42.667zM640 384H298.667A42.667 42.667 0 01256 341.333V128a42.667 42.667 0 0185.333 0v170.667H640A42.667 42.667 0 01640 384z"/></svg>',
+			click() {
+				flushEdit()
+				vscode.postMessage({ command: 'save' })
+			},
+		},
+		attach: {
+			name: 'attach',
+			tip: t('attach'),
+			icon: '<svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" width="32" height="32"><path d="M16.5 6v11.5a4 4 0 01-8 0V5a2.5 2.5 0 015 0v10.5a1 1 0 01-2 0V6H10v9.5a2.5 2.5 0 005 0V5a4 4 0 00-8 0v12.5a5.5 5.5 0 0011 0V6h-1.5z"/></svg>',
+			click() {
+				vscode.postMessage({ command: 'attach' })
+			},
+		},
+		'vscode-undo': vscodeUndo,
+		'vscode-redo': vscodeRedo,
+		// vditor 自带的 undo/redo 只改 vditor 自己的历史, 换成和 vscode 共用撤销栈的按钮
+		undo: vscodeUndo,
+		redo: vscodeRedo,
+		'edit-mode': { name: 'edit-mode', tipPosition: 'e' },
+		'copy-markdown': {
+			name: 'copy-markdown',
+			icon: t('copyMarkdown'),
+			async click() {
+				try {
+					await navigator.clipboard.writeText(vditor.getValue())
+					vscode.postMessage({
+						command: 'info',
+						content: t('copyMarkdownDone'),
+					})
+				} catch (error) {
+					vscode.postMessage({
+						command: 'error',
+						content: t('copyFailed', error.message),
+					})
+				}
+			},
+		},
+		'copy-html': {
+			name: 'copy-html',
+			icon: t('copyHtml'),
+			async click() {
+				try {
+					await navigator.clipboard.writeText(vditor.getHTML())
+					vscode.postMessage({
+						command: 'info',
+						content: t('copyHtmlDone'),
+					})
+				} catch (error) {
+					vscode.postMessage({
+						command: 'error',
+						content: t('copyFailed', error.message),
+					})
+				}
+			},
+		},
+		'export-html': {
+			name: 'export-html',
+			icon: t('exportHtml'),
+			click() {
+				exportDocument('html')
+			},
+		},
+		'export-pdf': {
+			name: 'export-pdf',
+			icon: t('exportPdf'),
+			click() {
+				exportDocument('pdf')
+			},
+		},
+		'reset-config': {
+			name: 'reset-config',
+			icon: t('resetConfig'),
+			async click() {
+				confirm(t('resetConfirm'), async () => {
+					try {
+						await vscode.postMessage({
+							command: 'reset-config',
+						})
+						await vscode.postMessage({
+							command: 'ready',
+						})
+						vscode.postMessage({
+							command: 'info',
+							content: t('resetDone'),
+						})
+					} catch (error) {
+						vscode.postMessage({
+							command: 'error',
+							content: t('resetFailed'),
+						})
+					}
+				})
+			},
+		},
+	}
+}
 
+export const DefaultToolbar: (string | ToolbarAction)[] = [
+	'save',
 	'emoji',
 	'headings',
 	'bold',
@@ -39,91 +160,90 @@ export const toolbar = [
 	'insert-after',
 	'|',
 	'upload',
+	'attach',
 	'table',
 	'|',
-	'undo',
-	'redo',
+	'vscode-undo',
+	'vscode-redo',
 	'|',
-	{name:'edit-mode', tipPosition: 'e',},
+	'edit-mode',
 	{
-	  name: 'more',
-	  tipPosition: 'e',
-	  toolbar: [
-		'both',
-		'code-theme',
-		'content-theme',
-		'outline',
-		'preview',
-		{
-		  name: 'copy-markdown',
-		  icon: t('copyMarkdown'),
-		  async click() {
-			try {
-			  await navigator.clipboard.writeText(vditor.getValue())
-			  vscode.postMessage({
-				command: 'info',
-				content: 'Copy Markdown successfully!',
-			  })
-			} catch (error) {
-			  vscode.postMessage({
-				command: 'error',
-				content: `Copy Markdown failed! ${error.message}`,
-			  })
-			}
-		  },
-		},
-		{
-		  name: 'copy-html',
-		  icon: t('copyHtml'),
-		  async click() {
-			try {
-			  await navigator.clipboard.writeText(vditor.getHTML())
-			  vscode.postMessage({
-				command: 'info',
-				content: 'Copy HTML successfully!',
-			  })
-			} catch (error) {
-			  vscode.postMessage({
-				command: 'error',
-				content: `Copy HTML failed! ${error.message}`,
-			  })
-			}
-		  },
-		},
-		{
-		  name: 'reset-config',
-		  icon: t('resetConfig'),
-		  async click() {
-			confirm(t('resetConfirm'), async () => {
-			  try {
-				await vscode.postMessage({
-				  command: 'reset-config',
-				})
-				await vscode.postMessage({
-				  command: 'ready',
-				})
-				vscode.postMessage({
-				  command: 'info',
-				  content: 'Reset config successfully!',
-				})
-			  } catch (error) {
-				vscode.postMessage({
-				  command: 'error',
-				  content: 'Reset config failed!',
-				})
-			  }
-			})
-		  },
-		},
-		'devtools',
-		'info',
-		'help',
-	  ],
+		name: 'more',
+		toolbar: [
+			'both',
+			'code-theme',
+			'content-theme',
+			'outline',
+			'preview',
+			'copy-markdown',
+			'copy-html',
+			'export-html',
+			'export-pdf',
+			'reset-config',
+			'devtools',
+			'info',
+			'help',
+		],
 	},
-  ].map((it: any) => {
-	if (typeof it === 'string') {
-	  it = { name: it }
+]
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/** 用 markdown 替换选中的文字, 没有选中时插入到光标处 */
+export function replaceSelection(getText: (selection: string) => string) {
+	const selection = vditor.getSelection() || ''
+	// getSelection 只返回编辑区内选中的文字, 不会删到编辑区外
+	selection && vditor.deleteValue()
+	vditor.insertValue(escapeHtml(getText(selection)))
+}
+
+// 自定义按钮: 插入片段, 包裹选中的文字或者执行 vscode 命令
+function customClick(action: ToolbarAction) {
+	if (action.command) {
+		return () => vscode.postMessage({ command: 'toolbar-action', name: action.name })
 	}
-	it.tipPosition = it.tipPosition || 's'
-	return it
-  })
+	if (action.toolbar) {
+		// 子菜单由 vditor 展开
+		return () => {}
+	}
+	return () => {
+		if (action.insert !== undefined) {
+			replaceSelection((selection) => action.insert.replace(/\$\{selection\}/g, () => selection))
+		} else {
+			replaceSelection((selection) => `${action.prefix || ''}${selection}${action.suffix || ''}`)
+		}
+	}
+}
+
+function toItem(item: string | ToolbarAction, builtins: ReturnType<typeof builtinItems>) {
+	if (typeof item === 'string') {
+		return builtins[item] || { name: item }
+	}
+	const toolbar = item.toolbar && item.toolbar.map((it) => toItem(it, builtins))
+	const custom = item.toolbar
+		? item.name !== 'more'
+		: ['insert', 'prefix', 'suffix', 'command'].some((key) => key in item)
+	if (!custom) {
+		// 内置按钮可以改 tip 和图标, 名字用替换后的按钮的
+		const builtin = builtins[item.name]
+		return { ...builtin, ...item, name: builtin ? builtin.name : item.name, toolbar }
+	}
+	return {
+		...item,
+		icon: item.icon || escapeHtml(item.tip || item.name),
+		click: customClick(item),
+		toolbar,
+	}
+}
+
+/**
+ * vditor 的 toolbar 配置, layout 来自 markdown-editor.toolbar 设置, 没有设置时用默认布局
+ */
+export function getToolbar(layout: (string | ToolbarAction)[] = DefaultToolbar) {
+	const builtins = builtinItems()
+	return layout.map((it) => {
+		const item: any = toItem(it, builtins)
+		item.tipPosition = item.tipPosition || (item.name === 'more' ? 'e' : 's')
+		return item
+	})
+}
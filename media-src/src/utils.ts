@@ -5,6 +5,8 @@ import 'jquery-confirm/css/jquery-confirm.css'
 
 import _ from 'lodash'
 import Vditor from 'vditor'
+import { t } from './lang'
+import { pinTheme } from './theme'
 window.vscode =
   (window as any).acquireVsCodeApi && (window as any).acquireVsCodeApi()
 ;(window as any).global = window
@@ -30,28 +32,15 @@ export function confirm(msg, onOk) {
     content: msg,
     buttons: {
       cancel: {
-        text: 'Cancel',
+        text: t('cancel'),
       },
       confirm: {
-        text: 'Confirm',
+        text: t('confirm'),
         action: onOk,
       },
     },
   })
 }
-// 切换 content-theme 时自动修改 vditor theme
-export function fixDarkTheme() {
-  let $ct = document.querySelector('[data-type="content-theme"]')
-  $ct.nextElementSibling.addEventListener('click', (e) => {
-    if ((e.target as any).tagName !== 'BUTTON') return
-    let type = (e.target as any).getAttribute('data-type')
-    if (type === 'dark') {
-      vditor.setTheme(type)
-    } else {
-      vditor.setTheme('classic')
-    }
-  })
-}
 // panel hover 加定时延迟
 export function fixPanelHover() {
   $('.vditor-panel').each((i, e) => {
@@ -80,22 +69,47 @@ export const fileToBase64 = async (file) => {
     reader.readAsDataURL(file)
   })
 }
-// 保存 vditor 配置到 vscode 同步存储
-export function saveVditorOptions() {
-  let vditorOptions = {
-    theme: vditor.vditor.options.theme,
+// 可以按文件保存的选项, 见插件的 editor-options.ts
+function editorOptions() {
+  const options = vditor.vditor.options
+  return {
     mode: vditor.vditor.currentMode,
-    preview: vditor.vditor.options.preview,
+    contentTheme: options.preview.theme.current,
+    codeTheme: options.preview.hljs.style,
+    outline: options.outline.enable,
+  }
+}
+
+let savedOptions = {}
+
+// 初始化后记下当前选项, 之后只保存改动过的
+export function markOptionsSaved() {
+  savedOptions = editorOptions()
+}
+
+// 把改动的选项保存为这个文件的选项
+export function saveVditorOptions() {
+  const options = editorOptions()
+  const changed = _.pickBy(options, (value, key) => value !== savedOptions[key])
+  savedOptions = options
+  if (_.isEmpty(changed)) {
+    return
+  }
+  if ('contentTheme' in changed) {
+    pinTheme('contentTheme')
+  }
+  if ('codeTheme' in changed) {
+    pinTheme('codeTheme')
   }
   vscode.postMessage({
     command: 'save-options',
-    options: vditorOptions,
+    options: changed,
   })
 }
 // toolbar 点击时保存配置
 export function handleToolbarClick() {
   $(
-    '.vditor-toolbar .vditor-panel--left button, .vditor-toolbar .vditor-panel--arrow button'
+    '.vditor-toolbar .vditor-panel--left button, .vditor-toolbar .vditor-panel--arrow button, .vditor-toolbar [data-type="outline"]'
   ).on('click', (e) => {
     setTimeout(() => {
       saveVditorOptions()
@@ -110,7 +124,8 @@ export function fixLinkClick() {
   document.addEventListener('click', e=> {
     let el = e.target as HTMLAnchorElement
     if (el.tagName === 'A') {
-      openLink(el.href)
+      // 发送原始地址, el.href 已经被 <base> 解析成 webview 的资源地址
+      openLink(el.getAttribute('href') || el.href)
     }
   })
   window.open = (url: string, ...args: any[]) => {
@@ -0,0 +1,83 @@
+/**
+ * [[wiki 链接]]: 高亮, Ctrl/Cmd+点击跳转, 输入 [[ 时补全工作区的 markdown 文件
+ */
+import { matchRanges, registerHighlight } from './highlight'
+
+const WikiLinkPattern = /\[\[([^[\]\n]+)\]\]/g
+
+let requestId = 0
+const pending = new Map<number, (files: WikiFile[]) => void>()
+
+interface WikiFile {
+  /** 写进 [[]] 的名字 */
+  link: string
+  /** 工作区相对路径 */
+  path: string
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function queryFiles(query: string) {
+  return new Promise<WikiFile[]>((resolve) => {
+    const id = ++requestId
+    pending.set(id, resolve)
+    vscode.postMessage({ command: 'wiki-complete', id, query })
+  })
+}
+
+/** 插件返回补全结果 */
+export function resolveWikiFiles(id: number, files: WikiFile[]) {
+  const resolve = pending.get(id)
+  pending.delete(id)
+  resolve && resolve(files)
+}
+
+/** vditor hint.extend 的配置 */
+export const wikiHint = {
+  key: '[[',
+  async hint(query: string) {
+    const files = await queryFiles(query.replace(/\]+$/, ''))
+    return files.map((f) => ({
+      // vditor 只高亮最后一个标签之后的文字
+      html: `<small style="opacity:.6">${escapeHtml(f.path)}</small> ${escapeHtml(f.link)}`,
+      value: `[[${f.link}]]`,
+    }))
+  },
+}
+
+// 点击位置所在的 wiki 链接
+function linkAtPoint(x: number, y: number) {
+  const range = document.caretRangeFromPoint(x, y)
+  if (!range || range.startContainer.nodeType !== Node.TEXT_NODE) {
+    return
+  }
+  const text = (range.startContainer as Text).data
+  WikiLinkPattern.lastIndex = 0
+  let match: RegExpExecArray
+  while ((match = WikiLinkPattern.exec(text))) {
+    if (match.index <= range.startOffset && range.startOffset <= match.index + match[0].length) {
+      return match[1]
+    }
+  }
+}
+
+export function setupWikiLinks() {
+  registerHighlight('wiki-link', () => matchRanges(WikiLinkPattern))
+  document.addEventListener(
+    'click',
+    (e) => {
+      if (!window.vditor || !(e.ctrlKey || e.metaKey)) {
+        return
+      }
+      const target = linkAtPoint(e.clientX, e.clientY)
+      if (target) {
+        e.preventDefault()
+        e.stopPropagation()
+        vscode.postMessage({ command: 'open-link', href: target, wiki: true })
+      }
+    },
+    true
+  )
+}
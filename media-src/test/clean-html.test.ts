@@ -0,0 +1,40 @@
+import * as assert from 'assert'
+import { cleanHtml, remoteImages } from '../src/clean-html'
+
+suite('clean-html', () => {
+  test('drops scripts, styles and attributes markdown cannot express', () => {
+    const html =
+      '<meta charset="utf-8"><style>p{color:red}</style><script>alert(1)</script>' +
+      '<p class="x" style="color:red" onclick="alert(1)"><a href="https://a.com" target="_blank">a</a></p>'
+    assert.strictEqual(cleanHtml(html), '<p><a href="https://a.com">a</a></p>')
+  })
+
+  test('turns styled spans into tags', () => {
+    const html =
+      '<b style="font-weight:normal" id="docs-internal-guid-1"><p>' +
+      '<span style="font-weight:700">bold</span> <span style="font-style:italic">italic</span> ' +
+      '<span style="text-decoration:line-through">strike</span> <span>plain</span></p></b>'
+    assert.strictEqual(cleanHtml(html), '<p><strong>bold</strong> <em>italic</em> <s>strike</s> plain</p>')
+  })
+
+  test('removes empty paragraphs but keeps images and tables', () => {
+    const html = '<p> </p><p><br></p><div><img src="a.png" alt="a"></div><p><table><tr><td>1</td></tr></table></p>'
+    const cleaned = cleanHtml(html)
+    assert.ok(!cleaned.includes('<br>'), cleaned)
+    assert.ok(cleaned.includes('<img src="a.png" alt="a">'), cleaned)
+    assert.ok(cleaned.includes('<td>1</td>'), cleaned)
+  })
+
+  test('keeps the sources of images for the download', () => {
+    const html = '<p><img src="https://a.com/x.png" srcset="https://a.com/x2.png 2x" style="width:10px"></p>'
+    assert.strictEqual(cleanHtml(html), '<p><img src="https://a.com/x.png"></p>')
+  })
+
+  test('finds each remote image once', () => {
+    const html = cleanHtml(
+      '<img src="https://a.com/x.png"><img src="http://b.com/y.gif"><img src="https://a.com/x.png">' +
+        '<img src="assets/local.png"><img src="data:image/png;base64,AA=="><img>'
+    )
+    assert.deepStrictEqual(remoteImages(html), ['https://a.com/x.png', 'http://b.com/y.gif'])
+  })
+})
@@ -0,0 +1,18 @@
+import * as assert from 'assert'
+import { Langs } from '../src/lang'
+
+const placeholders = (text: string) => (text.match(/\{\d+\}/g) || []).sort()
+
+suite('lang', () => {
+  test('every language translates every message', () => {
+    const { en_US, ...others } = Langs
+    assert.ok(Object.keys(others).length)
+    for (const [lang, messages] of Object.entries(others)) {
+      assert.deepStrictEqual(Object.keys(messages).sort(), Object.keys(en_US).sort(), `${lang} keys`)
+      for (const [key, text] of Object.entries(messages)) {
+        assert.ok(text, `${lang}: ${key} is empty`)
+        assert.deepStrictEqual(placeholders(text), placeholders(en_US[key]), `${lang}: ${key}`)
+      }
+    }
+  })
+})
@@ -0,0 +1,68 @@
+import * as assert from 'assert'
+import { DiagramSelector, showDiagramSource } from '../src/restricted'
+
+const parse = (html: string) => {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  return template.content
+}
+
+/** 转换后没有图表, 源码还在 */
+function assertNoDiagram(html: string, source: string) {
+  const result = parse(showDiagramSource(html))
+  assert.strictEqual(result.querySelectorAll(DiagramSelector).length, 0, html)
+  assert.ok(result.textContent.includes(source), html)
+}
+
+suite('restricted', () => {
+  test('shows the source of vditor rendered diagrams', () => {
+    const html = [
+      '<div class="language-mermaid">graph TD; A--&gt;B</div>',
+      '<div data-code="{}" class="language-mindmap">- a</div>',
+      '<pre><code class="language-smiles">CCO</code></pre>',
+    ].join('\n')
+    const result = parse(showDiagramSource(html))
+    assert.strictEqual(result.querySelectorAll(DiagramSelector).length, 0)
+    const codes = Array.from(result.querySelectorAll('pre > code.language-plaintext')).map((c) => c.textContent)
+    assert.deepStrictEqual(codes, ['graph TD; A-->B', '- a', 'CCO'])
+  })
+
+  test('raw html diagrams written in the document', () => {
+    const cases = [
+      '<div class="language-mermaid">graph TD; A--&gt;B</div>',
+      '<div class="language-mermaid"><div>graph TD;</div> A--&gt;B</div>',
+      '<div class="language-mermaid"><div></div>graph TD; A--&gt;B</div>',
+      "<div class='language-mermaid'>graph TD; A--&gt;B</div>",
+      '<div class="note language-mermaid">graph TD; A--&gt;B</div>',
+      '<div\nclass = "language-mermaid" id="x">graph TD; A--&gt;B</div>',
+      '<DIV CLASS="language-mermaid">graph TD; A--&gt;B</DIV>',
+      '<span class="language-mermaid">graph TD; A--&gt;B</span>',
+      '<p><b class="language-mermaid">graph TD; A--&gt;B</b></p>',
+      '<pre><code class="language-mermaid hljs">graph TD; A--&gt;B</code></pre>',
+      '<code class="language-mermaid">graph TD; A--&gt;B</code>',
+      '<div class="language-mermaid"><div class="language-echarts">graph TD; A--&gt;B</div></div>',
+      '<pre><code class="language-plantuml"><span class="language-mermaid">graph TD; A--&gt;B</span></code></pre>',
+    ]
+    for (const html of cases) {
+      assertNoDiagram(html, 'graph TD; A-->B')
+    }
+  })
+
+  test('every diagram type', () => {
+    for (const lang of DiagramSelector.split(',')) {
+      assertNoDiagram(`<div class="${lang.slice(1)}">source</div>`, 'source')
+    }
+  })
+
+  test('keeps the rest of the document', () => {
+    const html = '<h1 id="a">Title</h1><pre><code class="language-js">let a = 1</code></pre><p>text <em>b</em></p>'
+    assert.strictEqual(showDiagramSource(html), html)
+  })
+
+  test('does not turn diagram source into html', () => {
+    const html = '<div class="language-mermaid">&lt;img src=x onerror=alert(1)&gt;</div>'
+    const result = parse(showDiagramSource(html))
+    assert.strictEqual(result.querySelectorAll('img').length, 0)
+    assert.strictEqual(result.textContent, '<img src=x onerror=alert(1)>')
+  })
+})
@@ -0,0 +1,10 @@
+// webview 的代码用到浏览器的全局变量, 测试里用 jsdom 提供
+import { JSDOM } from 'jsdom'
+
+const { window } = new JSDOM('<!DOCTYPE html><body></body>')
+Object.assign(globalThis, {
+  window,
+  document: window.document,
+  navigator: window.navigator,
+  DOMParser: window.DOMParser,
+})
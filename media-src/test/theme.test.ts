@@ -0,0 +1,28 @@
+import * as assert from 'assert'
+import { pinTheme, setPinnedThemes, themeOptions } from '../src/theme'
+
+suite('theme', () => {
+  setup(() => setPinnedThemes({}))
+
+  test('follows the vscode theme', () => {
+    assert.deepStrictEqual(themeOptions('dark'), {
+      theme: 'dark',
+      preview: { theme: { current: 'dark' }, hljs: { style: 'github-dark' } },
+    })
+    assert.deepStrictEqual(themeOptions('high-contrast-light'), {
+      theme: 'classic',
+      preview: { theme: { current: 'light' }, hljs: { style: 'a11y-light' } },
+    })
+    assert.strictEqual(document.body.getAttribute('data-high-contrast'), 'light')
+  })
+
+  test('pinned content and code themes keep the editor following vscode', () => {
+    setPinnedThemes({ contentTheme: 'wechat', codeTheme: 'monokai' })
+    assert.deepStrictEqual(themeOptions('dark'), { theme: 'dark', preview: {} })
+  })
+
+  test('a theme picked in the toolbar is pinned', () => {
+    pinTheme('contentTheme')
+    assert.deepStrictEqual(themeOptions('light'), { theme: 'classic', preview: { hljs: { style: 'github' } } })
+  })
+})
@@ -0,0 +1,328 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import * as fs from 'fs'
+import { createHash } from 'crypto'
+import { resolvePathTemplate } from './utils'
+import { ExcludeGlob, findLinks, isExternal, MarkdownGlob, resolveLocalTarget } from './links'
+import { localize } from './localize'
+import { getMediaTemplates } from './media'
+
+export interface UploadFile {
+  name: string
+  base64: string
+}
+
+function config() {
+  return vscode.workspace.getConfiguration('markdown-editor')
+}
+
+/**
+ * Folder that pasted and uploaded files of a markdown file are saved to
+ */
+export function getAssetsFolder(uri: vscode.Uri) {
+  return resolvePathTemplate(config().get<string>('imageSaveFolder') || 'assets', uri)
+}
+
+function toLinkPath(from: string, file: string) {
+  return NodePath.relative(from, file).replace(/\\/g, '/')
+}
+
+async function exists(uri: vscode.Uri) {
+  try {
+    await vscode.workspace.fs.stat(uri)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const pad = (n: number, len = 2) => String(n).padStart(len, '0')
+
+function formatDate(d: Date) {
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`
+}
+
+function fileNameTemplate() {
+  const template = config().get<string>('imageFileNameTemplate')
+  const inspected = config().inspect<string>('imageFileNameTemplate')
+  const customized = inspected?.globalValue || inspected?.workspaceValue || inspected?.workspaceFolderValue
+  // imageFileNaming is deprecated, honor it until a template is set
+  if (!customized && config().get<string>('imageFileNaming') === 'contentHash') {
+    return '${hash}'
+  }
+  return template || '${date}_${name}'
+}
+
+/**
+ * Expand `${date}`, `${hash}`, `${name}`, `${fileBasenameNoExtension}` and `${index}` into a file name without extension
+ */
+export function expandFileNameTemplate(
+  template: string,
+  vars: { uri: vscode.Uri; name: string; hash?: string; index: number; date?: Date }
+) {
+  const values: Record<string, () => string> = {
+    date: () => formatDate(vars.date || new Date()),
+    hash: () => (vars.hash || '').slice(0, 16),
+    name: () => NodePath.basename(vars.name, NodePath.extname(vars.name)),
+    fileBasenameNoExtension: () =>
+      NodePath.basename(vars.uri.fsPath, NodePath.extname(vars.uri.fsPath)),
+    index: () => String(vars.index),
+  }
+  return template
+    .replace(/\$\{(\w+)\}/g, (m, key) => (values[key] ? values[key]() : m))
+    .replace(/[\\/:*?"<>|#%\s]+/g, '_')
+}
+
+function hashFile(file: string) {
+  return new Promise<string>((resolve, reject) => {
+    const hash = createHash('sha256')
+    fs.createReadStream(file)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+interface AssetSource {
+  name: string
+  hash: () => Promise<string>
+  write: (target: vscode.Uri) => Thenable<void>
+}
+
+/**
+ * Name the files by `markdown-editor.imageFileNameTemplate` and write them into the assets folder of `uri`,
+ * returns their paths relative to the markdown file
+ */
+async function saveAssets(uri: vscode.Uri, sources: AssetSource[]) {
+  const assetsFolder = getAssetsFolder(uri)
+  await vscode.workspace.fs.createDirectory(vscode.Uri.file(assetsFolder))
+  const template = fileNameTemplate()
+  const byHash = template.includes('${hash}')
+  const date = new Date()
+  const dir = NodePath.dirname(uri.fsPath)
+  const hashes = byHash ? await Promise.all(sources.map((source) => source.hash())) : []
+  // names are picked one after another so files of the same batch never get the same name
+  const taken = new Set<string>()
+  const writes: Thenable<void>[] = []
+  const paths: string[] = []
+  for (const [i, source] of sources.entries()) {
+    const ext = NodePath.extname(source.name).toLowerCase()
+    const base = expandFileNameTemplate(template, { uri, name: source.name, hash: hashes[i], index: i + 1, date })
+    let file = vscode.Uri.file(NodePath.join(assetsFolder, base + ext))
+    if (byHash) {
+      // same hash means same content, reuse the file written before or earlier in this batch
+      if (!taken.has(file.fsPath) && !(await exists(file))) {
+        writes.push(source.write(file))
+      }
+    } else {
+      for (let n = 1; taken.has(file.fsPath) || (await exists(file)); n++) {
+        file = vscode.Uri.file(NodePath.join(assetsFolder, `${base}_${n}${ext}`))
+      }
+      writes.push(source.write(file))
+    }
+    taken.add(file.fsPath)
+    paths.push(toLinkPath(dir, file.fsPath))
+  }
+  await Promise.all(writes)
+  return paths
+}
+
+/**
+ * Write files uploaded from the webview into the assets folder of `uri`
+ */
+export function saveUploads(uri: vscode.Uri, files: UploadFile[]) {
+  return saveAssets(
+    uri,
+    files.map((f) => {
+      const content = Buffer.from(f.base64, 'base64')
+      return {
+        name: f.name,
+        hash: async () => createHash('sha256').update(content).digest('hex'),
+        write: (target) => vscode.workspace.fs.writeFile(target, content),
+      }
+    })
+  )
+}
+
+/**
+ * Copy local files into the assets folder of `uri` by path, for files too large to send through the webview
+ */
+export function copyAttachments(uri: vscode.Uri, files: vscode.Uri[]) {
+  return saveAssets(
+    uri,
+    files.map((f) => ({
+      name: NodePath.basename(f.fsPath),
+      hash: () => hashFile(f.fsPath),
+      write: (target) => vscode.workspace.fs.copy(f, target),
+    }))
+  )
+}
+
+const MarkdownExtensions = ['.md', '.markdown']
+
+/** Whether `folder` or any of its sub folders holds markdown documents */
+const holdsDocuments = (folder: string, docFolders: Set<string>) =>
+  Array.from(docFolders).some((doc) => doc === folder || doc.startsWith(folder + NodePath.sep))
+
+/**
+ * Image and attachment files of `folder`, sub folders holding markdown documents are not searched
+ */
+async function listAssets(
+  folder: vscode.Uri,
+  assetExtensions: Set<string>,
+  docFolders: Set<string>,
+  recursive = true
+): Promise<vscode.Uri[]> {
+  let entries: [string, vscode.FileType][]
+  try {
+    entries = await vscode.workspace.fs.readDirectory(folder)
+  } catch {
+    return []
+  }
+  const files = await Promise.all(
+    entries.map(async ([name, type]) => {
+      const child = vscode.Uri.joinPath(folder, name)
+      if (type & vscode.FileType.Directory) {
+        const skip = !recursive || holdsDocuments(NodePath.normalize(child.fsPath), docFolders)
+        return skip ? [] : listAssets(child, assetExtensions, docFolders)
+      }
+      const ext = NodePath.extname(name).slice(1).toLowerCase()
+      const isAsset = assetExtensions.has(ext) && !MarkdownExtensions.includes(`.${ext}`)
+      return type & vscode.FileType.File && isAsset ? [child] : []
+    })
+  )
+  return ([] as vscode.Uri[]).concat(...files)
+}
+
+function localTargets(text: string, uri: vscode.Uri) {
+  const dir = NodePath.dirname(uri.fsPath)
+  return findLinks(text)
+    .filter((link) => !isExternal(link.target))
+    .map((link) => ({ link, file: resolveLocalTarget(link.target, dir).file }))
+}
+
+/**
+ * Scan workspace markdown files and offer to delete or move assets nobody links to
+ */
+export async function findUnusedAssets() {
+  const orphans = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: localize('Scanning markdown files for unused assets') },
+    async () => {
+      const docs = await vscode.workspace.findFiles(MarkdownGlob, ExcludeGlob)
+      const folders = new Set<string>()
+      const docFolders = new Set(docs.map((uri) => NodePath.normalize(NodePath.dirname(uri.fsPath))))
+      const referenced = new Set<string>()
+      for (const uri of docs) {
+        folders.add(NodePath.normalize(getAssetsFolder(uri)))
+        const text = (await vscode.workspace.fs.readFile(uri)).toString()
+        for (const { file } of localTargets(text, uri)) {
+          file && referenced.add(NodePath.normalize(file))
+        }
+      }
+      // only file types the editor inserts as images or attachments (`markdown-editor.mediaTemplates`)
+      const assetExtensions = new Set(Object.keys(getMediaTemplates()).filter((ext) => ext !== '*'))
+      const found = await Promise.all(
+        Array.from(folders).map(async (folder) => {
+          // an assets folder shared with documents (e.g. `${dir}` or the workspace root) is not searched further
+          // down, and its files are listed without being picked as they may be anything
+          const isDocFolder = holdsDocuments(folder, docFolders)
+          const files = await listAssets(vscode.Uri.file(folder), assetExtensions, docFolders, !isDocFolder)
+          return files.map((uri) => ({ uri, picked: !isDocFolder }))
+        })
+      )
+      const seen = new Set<string>()
+      return ([] as { uri: vscode.Uri; picked: boolean }[])
+        .concat(...found)
+        .filter(({ uri }) => {
+          const path = NodePath.normalize(uri.fsPath)
+          if (referenced.has(path) || seen.has(path)) {
+            return false
+          }
+          seen.add(path)
+          return true
+        })
+    }
+  )
+  if (!orphans.length) {
+    vscode.window.showInformationMessage(localize('No unused assets found.'))
+    return
+  }
+  const picked = await vscode.window.showQuickPick(
+    orphans.map(({ uri, picked }) => ({
+      label: NodePath.basename(uri.fsPath),
+      description: vscode.workspace.asRelativePath(uri),
+      picked,
+      uri,
+    })),
+    { canPickMany: true, placeHolder: localize('{0} unused assets, pick the ones to clean up', orphans.length) }
+  )
+  if (!picked || !picked.length) {
+    return
+  }
+  const Delete = localize('Move to Trash')
+  const Move = localize('Move to Folder...')
+  const action = await vscode.window.showWarningMessage(
+    localize('Clean up {0} unused assets?', picked.length),
+    { modal: true },
+    Delete,
+    Move
+  )
+  if (action === Delete) {
+    await Promise.all(picked.map((p) => vscode.workspace.fs.delete(p.uri, { useTrash: true })))
+  } else if (action === Move) {
+    const target = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      openLabel: localize('Move Here'),
+    })
+    if (!target) {
+      return
+    }
+    await Promise.all(
+      picked.map((p) =>
+        vscode.workspace.fs.rename(p.uri, vscode.Uri.joinPath(target[0], NodePath.basename(p.uri.fsPath)))
+      )
+    )
+  }
+}
+
+/**
+ * Rewrite links in open markdown documents when linked files or folders are renamed
+ */
+export async function updateLinksOnRename(e: vscode.FileRenameEvent) {
+  const edit = new vscode.WorkspaceEdit()
+  for (const doc of vscode.workspace.textDocuments) {
+    if (doc.languageId !== 'markdown' || doc.uri.scheme !== 'file') {
+      continue
+    }
+    const dir = NodePath.dirname(doc.uri.fsPath)
+    for (const { link, file } of localTargets(doc.getText(), doc.uri)) {
+      if (!file) {
+        continue
+      }
+      for (const { oldUri, newUri } of e.files) {
+        const oldPath = oldUri.fsPath
+        if (file !== oldPath && !file.startsWith(oldPath + NodePath.sep)) {
+          continue
+        }
+        const hash = link.target.indexOf('#')
+        let target = toLinkPath(dir, newUri.fsPath + file.slice(oldPath.length))
+        if (/%[0-9a-f]{2}/i.test(link.target)) {
+          target = encodeURI(target)
+        }
+        if (hash >= 0) {
+          target += link.target.slice(hash)
+        }
+        edit.replace(
+          doc.uri,
+          new vscode.Range(doc.positionAt(link.start), doc.positionAt(link.end)),
+          target
+        )
+        break
+      }
+    }
+  }
+  if (edit.size) {
+    await vscode.workspace.applyEdit(edit)
+  }
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import { localize } from './localize'
+
+export const ConflictScheme = 'markdown-editor-conflict'
+
+const contents = new Map<string, string>()
+
+/**
+ * Serves the webview side of a conflict as a read-only document for `vscode.diff`
+ */
+export class ConflictContentProvider implements vscode.TextDocumentContentProvider {
+  provideTextDocumentContent(uri: vscode.Uri) {
+    return contents.get(uri.toString()) || ''
+  }
+}
+
+/**
+ * Ask the user which side to keep when the webview and the file changed the same lines
+ */
+export async function resolveConflict(uri: vscode.Uri, mine: string): Promise<'mine' | 'file'> {
+  const name = NodePath.basename(uri.fsPath)
+  const KeepMine = localize('Keep Mine')
+  const KeepFile = localize('Keep File')
+  const Compare = localize('Compare')
+  let choice = await vscode.window.showWarningMessage(
+    localize(
+      '{0} was changed outside the markdown editor while you were editing it. Which version do you want to keep?',
+      name
+    ),
+    { modal: true },
+    KeepMine,
+    KeepFile,
+    Compare
+  )
+  if (choice === Compare) {
+    const mineUri = vscode.Uri.parse(`${ConflictScheme}:${uri.path}`).with({
+      query: String(Date.now()),
+    })
+    contents.set(mineUri.toString(), mine)
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      mineUri,
+      uri,
+      localize('{0}: Markdown Editor ↔ File', name)
+    )
+    choice = await vscode.window.showWarningMessage(
+      localize("Keep the markdown editor's version of {0} or the file's?", name),
+      KeepMine,
+      KeepFile
+    )
+    contents.delete(mineUri.toString())
+  }
+  // dismissing the dialog must not throw away the edits made in the markdown editor
+  return choice === KeepFile ? 'file' : 'mine'
+}
@@ -0,0 +1,178 @@
+/**
+ * Minimal text diff used to sync the webview and the TextDocument without
+ * replacing the whole document.
+ */
+
+export interface TextChange {
+  /** offset in the old text where the change starts */
+  start: number
+  /** offset in the old text where the change ends (exclusive) */
+  end: number
+  /** replacement text */
+  text: string
+}
+
+// Above this many differing lines the line diff is skipped and the changed
+// region is replaced as a single hunk.
+const MaxEditDistance = 1000
+
+function splitLines(text: string) {
+  // keep line endings so offsets add up to the original text
+  return text.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+/**
+ * Myers' O(ND) diff over two line arrays. Returns the matched line pairs in
+ * order, or undefined when the distance exceeds `maxD`.
+ */
+function matchLines(a: string[], b: string[], maxD: number) {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, maxD)
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 3).fill(0)
+  const trace: number[][] = []
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        return backtrack(trace, offset, n, m)
+      }
+    }
+  }
+  return undefined
+}
+
+function backtrack(trace: number[][], offset: number, n: number, m: number) {
+  const pairs: [number, number][] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d]
+    const k = x - y
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1
+    const prevX = v[offset + prevK]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      pairs.push([--x, --y])
+    }
+    x = prevX
+    y = prevY
+  }
+  while (x > 0 && y > 0) {
+    pairs.push([--x, --y])
+  }
+  return pairs.reverse()
+}
+
+/** Trim the common prefix/suffix of a single hunk down to characters. */
+function trimChange(oldText: string, change: TextChange): TextChange | null {
+  let { start, end, text } = change
+  let head = 0
+  while (head < text.length && start + head < end && text[head] === oldText[start + head]) {
+    head++
+  }
+  start += head
+  text = text.slice(head)
+  let tail = 0
+  while (
+    tail < text.length &&
+    end - tail > start &&
+    text[text.length - 1 - tail] === oldText[end - 1 - tail]
+  ) {
+    tail++
+  }
+  end -= tail
+  text = text.slice(0, text.length - tail)
+  if (start === end && !text) {
+    return null
+  }
+  return { start, end, text }
+}
+
+/**
+ * Compute the changes that turn `oldText` into `newText`. The changes are
+ * sorted, do not overlap and are expressed in offsets of `oldText`, so they
+ * can be applied together as one `WorkspaceEdit`.
+ */
+export function diffText(oldText: string, newText: string): TextChange[] {
+  if (oldText === newText) {
+    return []
+  }
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // strip common leading/trailing lines before running the real diff
+  let head = 0
+  while (head < a.length && head < b.length && a[head] === b[head]) {
+    head++
+  }
+  let tail = 0
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++
+  }
+  const midA = a.slice(head, a.length - tail)
+  const midB = b.slice(head, b.length - tail)
+  const pairs = matchLines(midA, midB, MaxEditDistance) || []
+
+  const lineOffsets = [0]
+  for (const line of a) {
+    lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length)
+  }
+  const changes: TextChange[] = []
+  let i = 0
+  let j = 0
+  const flush = (toI: number, toJ: number) => {
+    if (toI > i || toJ > j) {
+      const change = trimChange(oldText, {
+        start: lineOffsets[head + i],
+        end: lineOffsets[head + toI],
+        text: midB.slice(j, toJ).join(''),
+      })
+      change && changes.push(change)
+    }
+  }
+  for (const [pi, pj] of pairs) {
+    flush(pi, pj)
+    i = pi + 1
+    j = pj + 1
+  }
+  flush(midA.length, midB.length)
+  return changes
+}
+
+/**
+ * Convert the line endings of `text` to `eol`, the webview always works in LF
+ * while a document may use CRLF.
+ */
+export function withLineEndings(text: string, eol: '\n' | '\r\n') {
+  return text.replace(/\r?\n/g, eol)
+}
+
+/** Apply changes produced by `diffText` to the old text. */
+export function applyChanges(text: string, changes: TextChange[]) {
+  let result = ''
+  let last = 0
+  for (const c of changes) {
+    result += text.slice(last, c.start) + c.text
+    last = c.end
+  }
+  return result + text.slice(last)
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode'
+
+export type EditMode = 'ir' | 'wysiwyg' | 'sv'
+
+/** Options of the editor that can be set by the settings and changed per file from the toolbar */
+export interface EditorOptions {
+  mode?: EditMode
+  /** vditor content theme, e.g. `light` or `dark`, follows the VS Code theme when not set */
+  contentTheme?: string
+  /** highlight.js style */
+  codeTheme?: string
+  outline?: boolean
+}
+
+const KeyFileOptions = 'vditor.fileOptions'
+const KeyLegacyOptions = 'vditor.options'
+const KeyLegacyOptionsMigrated = 'vditor.options.migrated'
+
+/**
+ * The user and workspace (or folder) settings of `uri`, empty strings mean vditor's default
+ */
+function settingsOptions(uri: vscode.Uri): EditorOptions {
+  const config = vscode.workspace.getConfiguration('markdown-editor', uri)
+  const options: EditorOptions = {
+    mode: config.get<EditMode>('defaultMode'),
+    contentTheme: config.get<string>('contentTheme'),
+    codeTheme: config.get<string>('codeTheme'),
+    outline: config.get<boolean>('outline'),
+  }
+  for (const key of Object.keys(options) as (keyof EditorOptions)[]) {
+    if (options[key] === undefined || options[key] === '') {
+      delete options[key]
+    }
+  }
+  return options
+}
+
+function fileOptions(context: vscode.ExtensionContext): Record<string, EditorOptions> {
+  return context.workspaceState.get<Record<string, EditorOptions>>(KeyFileOptions) || {}
+}
+
+/**
+ * Options of the editor of `uri`: the settings, then the file's own options saved from the toolbar
+ */
+export function getEditorOptions(context: vscode.ExtensionContext, uri: vscode.Uri): EditorOptions {
+  return { ...settingsOptions(uri), ...fileOptions(context)[uri.toString()] }
+}
+
+/**
+ * Save the options changed in the editor of `uri` to the workspace state, options set back to the settings' value
+ * are dropped so the file follows the settings again
+ */
+export function saveFileOptions(context: vscode.ExtensionContext, uri: vscode.Uri, options: EditorOptions) {
+  const settings = settingsOptions(uri)
+  const all = fileOptions(context)
+  const changed: EditorOptions = { ...all[uri.toString()], ...options }
+  for (const key of Object.keys(changed) as (keyof EditorOptions)[]) {
+    if (changed[key] === undefined || changed[key] === settings[key]) {
+      delete changed[key]
+    }
+  }
+  if (Object.keys(changed).length) {
+    all[uri.toString()] = changed
+  } else {
+    delete all[uri.toString()]
+  }
+  return context.workspaceState.update(KeyFileOptions, all)
+}
+
+/**
+ * Drop the file's own options so the editor of `uri` follows the settings again
+ */
+export function resetFileOptions(context: vscode.ExtensionContext, uri: vscode.Uri) {
+  const all = fileOptions(context)
+  delete all[uri.toString()]
+  return context.workspaceState.update(KeyFileOptions, all)
+}
+
+/** The vditor options older versions saved to the global state */
+interface LegacyOptions {
+  mode?: EditMode
+  preview?: { theme?: { current?: string }; hljs?: { style?: string } }
+}
+
+/**
+ * Move the options older versions saved for every file into the user settings, once. Settings the user has set
+ * are kept, the old options are left in the global state.
+ */
+export async function migrateLegacyOptions(context: vscode.ExtensionContext) {
+  if (context.globalState.get<boolean>(KeyLegacyOptionsMigrated)) {
+    return
+  }
+  const legacy = context.globalState.get<LegacyOptions>(KeyLegacyOptions)
+  if (legacy) {
+    const config = vscode.workspace.getConfiguration('markdown-editor')
+    const values: Record<string, string | undefined> = {
+      defaultMode: legacy.mode,
+      contentTheme: legacy.preview?.theme?.current,
+      codeTheme: legacy.preview?.hljs?.style,
+    }
+    for (const [key, value] of Object.entries(values)) {
+      const inspected = config.inspect<string>(key)
+      if (!value || !inspected || inspected.globalValue !== undefined || value === inspected.defaultValue) {
+        continue
+      }
+      await config.update(key, value, vscode.ConfigurationTarget.Global)
+    }
+  }
+  await context.globalState.update(KeyLegacyOptionsMigrated, true)
+}
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import * as fs from 'fs'
+import * as os from 'os'
+import { execFile } from 'child_process'
+import { resolvePathTemplate } from './utils'
+import { localize } from './localize'
+
+export type ExportFormat = 'html' | 'pdf'
+
+const MimeTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const Entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+/** Decode the character references of an html attribute value */
+function decodeAttribute(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10)
+      return code <= 0x10ffff ? String.fromCodePoint(code) : m
+    }
+    return Entities[ref.toLowerCase()] ?? m
+  })
+}
+
+// the src attribute of an img, double, single or not quoted
+const ImageSource = /(<img\b[^>]*?\ssrc\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi
+
+/**
+ * Inline relative images as data urls, resolved against the document directory like the webview's `<base href>`
+ */
+export async function inlineImages(html: string, uri: vscode.Uri) {
+  const dir = NodePath.dirname(uri.fsPath)
+  const sources = new Set<string>()
+  html.replace(ImageSource, (m, head, ...values: string[]) => {
+    sources.add(decodeAttribute(values.slice(0, 3).find((v) => v !== undefined)!))
+    return m
+  })
+  const dataUrls = new Map<string, string>()
+  await Promise.all(
+    Array.from(sources).map(async (src) => {
+      if (/^([a-z][\w+.-]*:|\/\/|#)/i.test(src)) {
+        return
+      }
+      const file = NodePath.resolve(dir, decodeURI(src.replace(/[?#].*$/, '')))
+      try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.file(file))
+        const mime = MimeTypes[NodePath.extname(file).toLowerCase()] || 'application/octet-stream'
+        dataUrls.set(src, `data:${mime};base64,${Buffer.from(content).toString('base64')}`)
+      } catch (error) {
+        console.error(`Cannot inline image ${file}`, error)
+      }
+    })
+  )
+  return html.replace(ImageSource, (m, head, ...values: string[]) => {
+    const src = decodeAttribute(values.slice(0, 3).find((v) => v !== undefined)!)
+    return dataUrls.has(src) ? `${head}"${dataUrls.get(src)}"` : m
+  })
+}
+
+function findOnPath(names: string[]) {
+  const dirs = (process.env.PATH || '').split(NodePath.delimiter)
+  for (const name of names) {
+    for (const dir of dirs) {
+      const file = NodePath.join(dir, name)
+      if (fs.existsSync(file)) {
+        return file
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Locate a local Chrome, Edge or Chromium to print the exported html with
+ */
+export function findBrowser(configured?: string) {
+  if (configured) {
+    return configured
+  }
+  if (process.platform === 'win32') {
+    const roots = [process.env['PROGRAMFILES'], process.env['PROGRAMFILES(X86)'], process.env['LOCALAPPDATA']]
+    const apps = ['Google\\Chrome\\Application\\chrome.exe', 'Microsoft\\Edge\\Application\\msedge.exe', 'Chromium\\Application\\chrome.exe']
+    for (const app of apps) {
+      for (const root of roots) {
+        if (root && fs.existsSync(NodePath.join(root, app))) {
+          return NodePath.join(root, app)
+        }
+      }
+    }
+    return undefined
+  }
+  if (process.platform === 'darwin') {
+    return [
+      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+      '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+      '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    ].find((f) => fs.existsSync(f))
+  }
+  return findOnPath(['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser', 'microsoft-edge'])
+}
+
+function printToPdf(browser: string, htmlFile: string, pdfFile: string) {
+  return new Promise<void>((resolve, reject) => {
+    execFile(
+      browser,
+      [
+        '--headless',
+        '--disable-gpu',
+        '--no-pdf-header-footer',
+        `--print-to-pdf=${pdfFile}`,
+        vscode.Uri.file(htmlFile).toString(),
+      ],
+      { timeout: 60 * 1000 },
+      (error) => (error ? reject(error) : resolve())
+    )
+  })
+}
+
+/**
+ * Write the html rendered by the webview to the configured export path, printing it to pdf if asked
+ */
+export async function exportDocument(uri: vscode.Uri, format: ExportFormat, html: string) {
+  const config = vscode.workspace.getConfiguration('markdown-editor')
+  const title = NodePath.basename(uri.fsPath, NodePath.extname(uri.fsPath))
+  html = (await inlineImages(html, uri)).replace('<title></title>', () => `<title>${escapeHtml(title)}</title>`)
+
+  const output = resolvePathTemplate(
+    config.get<string>(format === 'html' ? 'exportHtmlPath' : 'exportPdfPath') ||
+      `\${dir}/\${fileBasenameNoExtension}.${format}`,
+    uri
+  )
+  await vscode.workspace.fs.createDirectory(vscode.Uri.file(NodePath.dirname(output)))
+
+  if (format === 'html') {
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(output), Buffer.from(html))
+  } else {
+    const browser = findBrowser(config.get<string>('browserPath'))
+    if (!browser) {
+      throw new Error(
+        localize('Cannot find Chrome, Edge or Chromium to print the pdf, please set `markdown-editor.browserPath`')
+      )
+    }
+    const tmpFile = NodePath.join(os.tmpdir(), `markdown-editor-${Date.now()}.html`)
+    await fs.promises.writeFile(tmpFile, html)
+    try {
+      await printToPdf(browser, tmpFile, output)
+    } finally {
+      fs.promises.unlink(tmpFile).catch(() => {})
+    }
+  }
+  return output
+}
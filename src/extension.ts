@@ -1,6 +1,80 @@
 import * as vscode from 'vscode'
 import * as NodePath from 'path'
-const KeyVditorOptions = 'vditor.options'
+import { diffText, withLineEndings } from './diff'
+import { merge3 } from './merge'
+import { ConflictContentProvider, ConflictScheme, resolveConflict } from './conflict'
+import { fragmentLine, getHeadings, OutlineProvider } from './outline'
+import { exportDocument, ExportFormat } from './export'
+import {
+  copyAttachments,
+  findUnusedAssets,
+  getAssetsFolder,
+  saveUploads,
+  updateLinksOnRename,
+} from './assets'
+import { getMediaTemplates, mediaSnippet } from './media'
+import { BrokenLink, isExternal, resolveLocalTarget } from './links'
+import { LinkChecker } from './link-check'
+import { collectFrontMatterValues } from './front-matter'
+import { localize } from './localize'
+import { findToolbarAction, getToolbarLayout, ToolbarItem } from './toolbar'
+import {
+  editorHtml,
+  isAllowedLink,
+  isWorkspaceTrusted,
+  localResourceRoots,
+  onDidGrantWorkspaceTrust,
+} from './security'
+import { downloadImages, shouldDownload } from './remote-images'
+import {
+  BacklinksProvider,
+  onDidChangeMarkdownFiles,
+  resolveWikiLink,
+  watchMarkdownFiles,
+  wikiCompletions,
+} from './wiki'
+import { getEditorOptions, migrateLegacyOptions, resetFileOptions, saveFileOptions } from './editor-options'
+
+let linkChecker: LinkChecker | undefined
+
+type ThemeKind = 'light' | 'dark' | 'high-contrast' | 'high-contrast-light'
+
+/**
+ * The kind of the VS Code color theme, high contrast themes get the webview's high contrast style.
+ * VS Code before 1.50 has no color theme API and gets the light theme.
+ */
+function themeKind(): ThemeKind {
+  if (!vscode.window.activeColorTheme) {
+    return 'light'
+  }
+  switch (vscode.window.activeColorTheme.kind) {
+    case vscode.ColorThemeKind.Dark:
+      return 'dark'
+    case vscode.ColorThemeKind.HighContrast:
+      return 'high-contrast'
+    // undefined before VS Code 1.63, which has no light high contrast themes, so the case never matches there
+    case vscode.ColorThemeKind.HighContrastLight:
+      return 'high-contrast-light'
+    default:
+      return 'light'
+  }
+}
+
+/** Commands forwarded to the focused webview, mapped to the editor action they run */
+const EditorActions: Record<string, string> = {
+  'markdown-editor.toggleBold': 'bold',
+  'markdown-editor.toggleItalic': 'italic',
+  'markdown-editor.toggleStrikethrough': 'strike',
+  'markdown-editor.toggleInlineCode': 'inline-code',
+  'markdown-editor.insertLink': 'link',
+  'markdown-editor.insertCodeBlock': 'code',
+  'markdown-editor.insertQuote': 'quote',
+  'markdown-editor.insertTable': 'table',
+  'markdown-editor.toggleOutline': 'outline',
+  'markdown-editor.switchMode.ir': 'mode.ir',
+  'markdown-editor.switchMode.wysiwyg': 'mode.wysiwyg',
+  'markdown-editor.switchMode.sv': 'mode.sv',
+}
 
 function debug(...args: any[]) {
   console.log(...args)
@@ -21,44 +95,295 @@ export function activate(context: vscode.ExtensionContext) {
     )
   )
 
-  // Register the custom editor provider only if the setting is enabled
-  const config = vscode.workspace.getConfiguration('markdown-editor');
-  const useAsDefault = config.get<boolean>('useAsDefault', false);
-  
-  if (useAsDefault) {
-    const provider = new MarkdownEditorProvider(context);
-    context.subscriptions.push(
-      vscode.window.registerCustomEditorProvider('markdown-editor.editor', provider, {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      ConflictScheme,
+      new ConflictContentProvider()
+    )
+  )
+
+  // The provider is always registered so "Reopen With" works, useAsDefault only changes the editor association
+  context.subscriptions.push(
+    vscode.window.registerCustomEditorProvider(
+      MarkdownEditorProvider.viewType,
+      new MarkdownEditorProvider(context),
+      {
         webviewOptions: { retainContextWhenHidden: true },
         supportsMultipleEditorsPerDocument: false
-      })
-    );
-  }
-  
-  // Listen for configuration changes to re-register the provider if needed
+      }
+    )
+  );
+
+  // Switch between default and optional editor without reloading the window, the setting may also have changed
+  // while the extension was not running
+  updateDefaultEditor(context);
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(e => {
       if (e.affectsConfiguration('markdown-editor.useAsDefault')) {
-        // Reload window to apply the change
-        vscode.commands.executeCommand('workbench.action.reloadWindow');
+        updateDefaultEditor(context);
+      }
+    })
+  );
+
+  // Headings of the focused markdown editor, the built-in Outline view only follows text editors
+  const outline = new OutlineProvider(() => EditorPanelMap.current?._document)
+  let outlineTimer: NodeJS.Timeout | undefined
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('markdown-editor.outline', outline),
+    EditorPanelMap.onDidChangeCurrent(() => outline.refresh()),
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.document !== EditorPanelMap.current?._document) {
+        return
+      }
+      outlineTimer && clearTimeout(outlineTimer)
+      outlineTimer = setTimeout(() => outline.refresh(), 300)
+    }),
+    vscode.window.onDidChangeActiveTextEditor((editor) => {
+      if (editor) {
+        EditorPanelMap.setCurrent(undefined)
+      }
+    }),
+    vscode.commands.registerCommand('markdown-editor.revealLine', (line: number) => {
+      EditorPanelMap.current?.revealLine(line)
+    }),
+    vscode.commands.registerCommand('markdown-editor.goToHeading', async () => {
+      const panel = EditorPanelMap.current
+      if (!panel) {
+        showError(localize('No markdown editor is active!'))
+        return
+      }
+      const picked = await vscode.window.showQuickPick(
+        getHeadings(panel._document.getText()).map((heading) => ({
+          label: `${'  '.repeat(heading.level - 1)}${heading.text}`,
+          description: `H${heading.level}`,
+          heading,
+        })),
+        { placeHolder: localize('Go to heading') }
+      )
+      if (picked) {
+        panel.revealLine(picked.heading.line)
+      }
+    })
+  )
+
+  for (const [command, action] of Object.entries(EditorActions)) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, () => {
+        const panel = EditorPanelMap.active() || EditorPanelMap.current
+        if (!panel) {
+          showError(localize('No markdown editor is active!'))
+          return
+        }
+        panel.runAction(action)
+      })
+    )
+  }
+
+  for (const format of ['html', 'pdf'] as ExportFormat[]) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        `markdown-editor.export${format === 'html' ? 'Html' : 'Pdf'}`,
+        () => {
+          const editor = vscode.window.activeTextEditor
+          const panel =
+            EditorPanelMap.current ||
+            (editor ? EditorPanelMap.get(editor.document.uri) : undefined)
+          if (!panel) {
+            showError(localize('Open the file with markdown editor to export it!'))
+            return
+          }
+          panel.requestExport(format)
+        }
+      )
+    )
+  }
+
+  linkChecker = new LinkChecker((uri, broken) => EditorPanelMap.get(uri)?.showBrokenLinks(broken))
+  context.subscriptions.push(
+    linkChecker,
+    vscode.commands.registerCommand('markdown-editor.checkAllLinks', () => linkChecker!.checkAll())
+  )
+
+  // Notes linking to the focused markdown editor by [[wiki link]] or relative link
+  const backlinks = new BacklinksProvider(() => EditorPanelMap.current?._document)
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('markdown-editor.backlinks', backlinks),
+    watchMarkdownFiles(),
+    EditorPanelMap.onDidChangeCurrent(() => backlinks.refresh()),
+    onDidChangeMarkdownFiles(() => backlinks.refresh()),
+    vscode.workspace.onDidSaveTextDocument((doc) => {
+      if (doc.languageId === 'markdown') {
+        backlinks.refresh()
       }
     })
+  )
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('markdown-editor.findUnusedAssets', findUnusedAssets),
+    vscode.workspace.onDidRenameFiles(updateLinksOnRename)
+  )
+
+  // Leave Restricted Mode in the open editors as soon as the workspace is trusted
+  context.subscriptions.push(
+    onDidGrantWorkspaceTrust(() => EditorPanelMap.all().forEach((panel) => panel.reload()))
+  )
+
+  // Open editors pick up changed editor option settings
+  const EditorOptionSettings = ['defaultMode', 'contentTheme', 'codeTheme', 'outline']
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      for (const panel of EditorPanelMap.all()) {
+        if (EditorOptionSettings.some((key) => e.affectsConfiguration(`markdown-editor.${key}`, panel._uri))) {
+          panel.reload()
+        }
+      }
+    })
+  )
+
+  // Editor, content and code themes follow the VS Code color theme without reloading the editors
+  if (vscode.window.onDidChangeActiveColorTheme) {
+    context.subscriptions.push(
+      vscode.window.onDidChangeActiveColorTheme(() => {
+        const theme = themeKind()
+        EditorPanelMap.all().forEach((panel) => panel.setTheme(theme))
+      })
+    )
+  }
+
+  // Options older versions saved for all files become user settings
+  migrateLegacyOptions(context)
+}
+
+const MarkdownFilePattern = '*.md'
+// set in the global or workspace state when the `*.md` association of that target was added by
+// `markdown-editor.useAsDefault`, not by the user
+const KeyAddedAssociation = 'editorAssociation.added'
+
+/**
+ * `editorAssociations` with the `*.md` association set to `viewType`, or without it when `viewType` is undefined
+ */
+function withMarkdownAssociation(current: any, viewType?: string) {
+  const removable = [MarkdownEditorProvider.viewType, 'default'];
+  if (Array.isArray(current)) {
+    // VS Code before 1.57 stores associations as an array
+    const isMarkdown = (a: any) => a.filenamePattern === MarkdownFilePattern;
+    if (!viewType) {
+      return current.filter((a) => !isMarkdown(a) || !removable.includes(a.viewType));
+    }
+    return current.some((a) => isMarkdown(a) && a.viewType === viewType)
+      ? current
+      : [...current.filter((a) => !isMarkdown(a)), { viewType, filenamePattern: MarkdownFilePattern }];
+  }
+  const next = { ...current };
+  if (viewType) {
+    next[MarkdownFilePattern] = viewType;
+  } else if (removable.includes(next[MarkdownFilePattern])) {
+    delete next[MarkdownFilePattern];
+  }
+  return next;
+}
+
+/**
+ * Set the `*.md` association of one configuration target to `viewType`, or remove it when `viewType` is undefined
+ * and this extension added it. Returns whether the setting was written.
+ */
+async function reconcileAssociation(
+  target: vscode.ConfigurationTarget,
+  state: vscode.Memento,
+  viewType?: string
+) {
+  const workbench = vscode.workspace.getConfiguration('workbench');
+  const inspected = workbench.inspect<any>('editorAssociations');
+  const current =
+    target === vscode.ConfigurationTarget.Global ? inspected?.globalValue : inspected?.workspaceValue;
+  const added = state.get<boolean>(KeyAddedAssociation, false);
+  const next = viewType || added ? withMarkdownAssociation(current, viewType) : current;
+  if (JSON.stringify(next) === JSON.stringify(current || (Array.isArray(next) ? [] : {}))) {
+    if (!viewType) {
+      await state.update(KeyAddedAssociation, false);
+    }
+    return false;
+  }
+  await workbench.update('editorAssociations', next, target);
+  await state.update(KeyAddedAssociation, !!viewType);
+  return true;
+}
+
+/**
+ * Make the `*.md` editor association follow `markdown-editor.useAsDefault`, in the user or workspace settings
+ * where it is set. Only associations added by this setting are removed.
+ */
+async function updateDefaultEditor(context: vscode.ExtensionContext) {
+  const setting = EditorPanel.config.inspect<boolean>('useAsDefault');
+  const globalDefault = setting?.globalValue ?? setting?.defaultValue ?? false;
+  let changed = await reconcileAssociation(
+    vscode.ConfigurationTarget.Global,
+    context.globalState,
+    globalDefault ? MarkdownEditorProvider.viewType : undefined
   );
+  if (vscode.workspace.workspaceFolders) {
+    const workspaceDefault = setting?.workspaceFolderValue ?? setting?.workspaceValue;
+    // the workspace association only overrides the user's one, `default` is the text editor
+    const viewType =
+      workspaceDefault === undefined || workspaceDefault === globalDefault
+        ? undefined
+        : workspaceDefault
+        ? MarkdownEditorProvider.viewType
+        : 'default';
+    changed =
+      (await reconcileAssociation(vscode.ConfigurationTarget.Workspace, context.workspaceState, viewType)) ||
+      changed;
+  }
+  if (changed) {
+    await reopenActiveMarkdown(EditorPanel.config.get<boolean>('useAsDefault', false));
+  }
+}
 
-  context.globalState.setKeysForSync([KeyVditorOptions])
+/**
+ * Offer to reopen the active markdown file with the editor that is now the default
+ */
+async function reopenActiveMarkdown(useAsDefault: boolean) {
+  const textEditor = vscode.window.activeTextEditor;
+  const panel = EditorPanelMap.active();
+  const uri = useAsDefault
+    ? textEditor?.document.languageId === 'markdown' ? textEditor.document.uri : undefined
+    : panel?.isCustomEditor ? panel._uri : undefined;
+  if (!uri) {
+    return;
+  }
+  const Reopen = localize('Reopen Editor');
+  const choice = await vscode.window.showInformationMessage(
+    useAsDefault
+      ? localize('Markdown Editor is now the default editor for markdown files.')
+      : localize('Markdown Editor is no longer the default editor for markdown files.'),
+    Reopen
+  );
+  if (choice !== Reopen) {
+    return;
+  }
+  if (useAsDefault) {
+    const column = textEditor!.viewColumn;
+    if (!textEditor!.document.isDirty) {
+      await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    }
+    await vscode.commands.executeCommand('vscode.openWith', uri, MarkdownEditorProvider.viewType, column);
+  } else {
+    const column = panel!._panel.viewColumn;
+    panel!._panel.dispose();
+    await vscode.commands.executeCommand('vscode.openWith', uri, 'default', column);
+  }
 }
 
 /**
- * Custom Editor Provider for Markdown files
+ * Custom Editor Provider for Markdown files, bound directly to the TextDocument
  */
-class MarkdownEditorProvider implements vscode.CustomEditorProvider<vscode.CustomDocument> {
-  private readonly _onDidChangeCustomDocument = new vscode.EventEmitter<vscode.CustomDocumentEditEvent<vscode.CustomDocument>>();
-  public readonly onDidChangeCustomDocument = this._onDidChangeCustomDocument.event;
+class MarkdownEditorProvider implements vscode.CustomTextEditorProvider {
+  public static readonly viewType = 'markdown-editor.editor';
 
   constructor(private context: vscode.ExtensionContext) {}
 
-  async resolveCustomEditor(
-    document: vscode.CustomDocument,
+  async resolveCustomTextEditor(
+    document: vscode.TextDocument,
     webviewPanel: vscode.WebviewPanel,
     _token: vscode.CancellationToken
   ): Promise<void> {
@@ -66,11 +391,8 @@ class MarkdownEditorProvider implements vscode.CustomEditorProvider<vscode.Custo
     console.log(`Resolving custom editor for ${document.uri.toString()}`);
     
     try {
-      // First, ensure the text document is open in the background
-      const textDocument = await vscode.workspace.openTextDocument(document.uri);
-      
       // Create a new editor panel using the existing webview panel
-      const panel = await EditorPanelMap.createWithExistingPanel(this.context, textDocument, webviewPanel);
+      await EditorPanelMap.createWithExistingPanel(this.context, document, webviewPanel);
       
       // Add specific handling for panel disposal
       webviewPanel.onDidDispose(() => {
@@ -80,49 +402,13 @@ class MarkdownEditorProvider implements vscode.CustomEditorProvider<vscode.Custo
     } catch (error) {
       console.error(`Error resolving custom editor: ${error}`);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      vscode.window.showErrorMessage(`Failed to open markdown editor: ${errorMessage}`);
+      vscode.window.showErrorMessage(localize('Failed to open markdown editor: {0}', errorMessage));
       
       // Fall back to default editor
       webviewPanel.dispose();
       await vscode.commands.executeCommand('vscode.openWith', document.uri, 'default');
     }
   }
-
-  async openCustomDocument(
-    uri: vscode.Uri,
-    _openContext: vscode.CustomDocumentOpenContext,
-    _token: vscode.CancellationToken
-  ): Promise<vscode.CustomDocument> {
-    return { uri, dispose: () => {} };
-  }
-
-  // Implement required methods from the interface
-  saveCustomDocument(document: vscode.CustomDocument, cancellation: vscode.CancellationToken): Thenable<void> {
-    const panel = EditorPanelMap.get(document.uri);
-    if (panel && panel._document) {
-      return panel._document.save().then(() => {});
-    }
-    return Promise.resolve();
-  }
-
-  saveCustomDocumentAs(document: vscode.CustomDocument, destination: vscode.Uri, cancellation: vscode.CancellationToken): Thenable<void> {
-    // Fix: The saveAs method only takes one parameter and returns Uri | undefined
-    // We need to use a different approach
-    return vscode.workspace.openTextDocument(document.uri).then(doc => {
-      return vscode.workspace.fs.writeFile(destination, Buffer.from(doc.getText())).then(() => {});
-    });
-  }
-
-  revertCustomDocument(document: vscode.CustomDocument, cancellation: vscode.CancellationToken): Thenable<void> {
-    return Promise.resolve();
-  }
-
-  backupCustomDocument(document: vscode.CustomDocument, context: vscode.CustomDocumentBackupContext, cancellation: vscode.CancellationToken): Thenable<vscode.CustomDocumentBackup> {
-    return Promise.resolve({
-      id: context.destination.toString(),
-      delete: () => {}
-    });
-  }
 }
 
 /**
@@ -141,18 +427,61 @@ class EditorPanelMap {
     return this.panels.get(uri.toString());
   }
 
+  private static _current: EditorPanel | undefined;
+  private static _onDidChangeCurrent = new vscode.EventEmitter<EditorPanel | undefined>();
+  public static readonly onDidChangeCurrent = EditorPanelMap._onDidChangeCurrent.event;
+
+  /**
+   * The panel focused last, kept while focus moves to views like the outline
+   */
+  public static get current(): EditorPanel | undefined {
+    return this._current;
+  }
+
+  public static setCurrent(panel: EditorPanel | undefined) {
+    if (panel !== this._current) {
+      this._current = panel;
+      vscode.commands.executeCommand('setContext', 'markdownEditorActive', !!panel);
+      this._onDidChangeCurrent.fire(panel);
+    }
+  }
+
+  public static all(): EditorPanel[] {
+    return [...this.panels.values()];
+  }
+
+  /**
+   * Get the panel that currently has focus
+   */
+  public static active(): EditorPanel | undefined {
+    for (const panel of this.panels.values()) {
+      if (panel._panel.active) {
+        return panel;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Register a panel
    */
   public static register(uri: vscode.Uri, panel: EditorPanel): void {
     this.panels.set(uri.toString(), panel);
+    if (panel._panel.active) {
+      this.setCurrent(panel);
+    }
   }
 
   /**
    * Unregister a panel
    */
   public static unregister(uri: vscode.Uri): void {
+    const panel = this.panels.get(uri.toString());
     this.panels.delete(uri.toString());
+    if (panel && panel === this._current) {
+      this.setCurrent(undefined);
+    }
+    vscode.commands.executeCommand('setContext', 'markdownEditorFocus', !!this.active());
   }
 
   // In EditorPanelMap
@@ -179,7 +508,7 @@ class EditorPanelMap {
     }
     
     // Configure the webview panel with our options
-    webviewPanel.webview.options = EditorPanel.getWebviewOptions(uri);
+    webviewPanel.webview.options = EditorPanel.getWebviewOptions(context.extensionUri, uri);
     
     const panel = new EditorPanel(
       context,
@@ -188,6 +517,7 @@ class EditorPanelMap {
       document,
       uri
     );
+    panel.isCustomEditor = true;
     
     this.register(uri, panel);
     return panel;
@@ -215,7 +545,7 @@ class EditorPanelMap {
     }
 
     if (!vscode.window.activeTextEditor && !uri) {
-      showError(`Did not open markdown file!`);
+      showError(localize('Did not open markdown file!'));
       return;
     }
     
@@ -230,14 +560,14 @@ class EditorPanelMap {
       // from command mode
       if (doc && doc.languageId !== 'markdown') {
         showError(
-          `Current file language is not markdown, got ${doc.languageId}`
+          localize('Current file language is not markdown, got {0}', doc.languageId)
         );
         return;
       }
     }
 
     if (!doc) {
-      showError(`Cannot find markdown file!`);
+      showError(localize('Cannot find markdown file!'));
       return;
     }
 
@@ -246,7 +576,7 @@ class EditorPanelMap {
       EditorPanel.viewType,
       'markdown-editor',
       column || vscode.ViewColumn.One,
-      EditorPanel.getWebviewOptions(uri)
+      EditorPanel.getWebviewOptions(extensionUri, doc.uri)
     );
 
     const editorPanel = new EditorPanel(
@@ -284,6 +614,9 @@ class EditorPanel {
   private _textEditTimer: NodeJS.Timeout | null = null;
   private _disposalTimeout: NodeJS.Timeout | null = null;
   private _disposables: vscode.Disposable[] = [];
+  private _keepAliveInterval: NodeJS.Timeout | null = null;
+  // true when the panel is hosted by MarkdownEditorProvider instead of the openEditor command
+  public isCustomEditor = false;
 
   public static async createOrShow(
     context: vscode.ExtensionContext,
@@ -292,23 +625,17 @@ class EditorPanel {
     return EditorPanelMap.createOrShow(context, uri);
   }
 
-  private static getFolders(): vscode.Uri[] {
-    const data = [];
-    for (let i = 65; i <= 90; i++) {
-      data.push(vscode.Uri.file(`${String.fromCharCode(i)}:/`));
-    }
-    return data;
-  }
-
   static getWebviewOptions(
+    extensionUri: vscode.Uri,
     uri?: vscode.Uri
   ): vscode.WebviewOptions & vscode.WebviewPanelOptions {
     return {
       // Enable javascript in the webview
       enableScripts: true,
-      localResourceRoots: [vscode.Uri.file("/"), ...this.getFolders()],
+      localResourceRoots: localResourceRoots(extensionUri, uri),
       retainContextWhenHidden: true,
-      enableCommandUris: true,
+      // command: links in a markdown file must not run commands
+      enableCommandUris: false,
     };
   }
   
@@ -382,19 +709,19 @@ class EditorPanel {
   // Replace the existing document change handler
   private setupDocumentChangeHandler() {
     vscode.workspace.onDidChangeTextDocument((e) => {
-      if (e.document.fileName === this._fsPath) {
-        console.log(`Document changed: ${e.document.fileName}, isDirty=${e.document.isDirty}`);
+      if (e.document.fileName !== this._fsPath) {
+        return;
       }
+      console.log(`Document changed: ${e.document.fileName}, isDirty=${e.document.isDirty}`);
       
       // Skip if this change was triggered by our own edit
       if (this._documentEditPending) {
         return;
       }
       
-      // Skip if webview panel is active (user is editing in the webview)
-      if (this._panel.active) {
-        return;
-      }
+      // Changes from other sources are always forwarded, the webview merges them
+      // with its unsent edits through the version it reports back
+      this._lastExternalVersion = e.document.version;
       
       // Debounce updates
       if (this._textEditTimer) {
@@ -405,50 +732,294 @@ class EditorPanel {
         this._update();
         this._updateEditTitle();
       }, 300);
-    }, this._disposables);
+    }, null, this._disposables);
+  }
+
+  // Ignore text editor scrolling caused by our own reveals and edits
+  private _ignoreEditorScrollUntil = 0;
+
+  // Reveal the same source line in the webview when a text editor of this document scrolls
+  private setupEditorSyncHandler() {
+    vscode.window.onDidChangeTextEditorVisibleRanges((e) => {
+      const range = e.visibleRanges[0];
+      if (
+        !range ||
+        !this.isSyncedEditor(e.textEditor) ||
+        Date.now() < this._ignoreEditorScrollUntil
+      ) {
+        return;
+      }
+      this._panel.webview.postMessage({
+        command: 'reveal-line',
+        line: range.start.line,
+        reason: 'scroll',
+      });
+    }, null, this._disposables);
+
+    vscode.window.onDidChangeTextEditorSelection((e) => {
+      // kind is undefined when the selection moved because of an edit
+      if (!this.isSyncedEditor(e.textEditor) || e.kind === undefined) {
+        return;
+      }
+      this._panel.webview.postMessage({
+        command: 'reveal-line',
+        line: e.selections[0].active.line,
+        reason: 'cursor',
+      });
+    }, null, this._disposables);
+  }
+
+  private isSyncedEditor(editor: vscode.TextEditor) {
+    return (
+      EditorPanel.config.get<boolean>('syncScroll', true) &&
+      this._panel.visible &&
+      editor.document.uri.toString() === this._uri.toString()
+    );
+  }
+
+  /**
+   * Ask the webview to render the document for export, it answers with an `export` message
+   */
+  public requestExport(format: ExportFormat) {
+    this._panel.webview.postMessage({ command: 'export', format });
+  }
+
+  /**
+   * Run a formatting or view action of the webview editor, see `EditorActions`
+   */
+  public runAction(action: string) {
+    this._panel.webview.postMessage({ command: 'run-action', action });
+  }
+
+  /**
+   * Switch the editor, content and code themes to the VS Code color theme without reloading the webview
+   */
+  public setTheme(theme: ThemeKind) {
+    this._panel.webview.postMessage({ command: 'theme', theme });
+  }
+
+  /**
+   * Mark broken links found by the link checker in the webview
+   */
+  public showBrokenLinks(broken: BrokenLink[]) {
+    this._panel.webview.postMessage({
+      command: 'broken-links',
+      links: broken.map(({ link, reason }) => ({ target: link.target, reason })),
+    });
+  }
+
+  /**
+   * Scroll the webview to a source line
+   */
+  public revealLine(line: number) {
+    this._panel.reveal(this._panel.viewColumn);
+    if (!this._webviewReady) {
+      // opened from a link, scroll once the content is there
+      this._pendingRevealLine = line;
+      return;
+    }
+    this._panel.webview.postMessage({ command: 'reveal-line', line, reason: 'scroll' });
+  }
+
+  private _webviewReady = false;
+  private _pendingRevealLine: number | undefined;
+  // the validated toolbar setting sent to the webview, custom actions are looked up here
+  private _toolbarLayout: ToolbarItem[] | undefined;
+
+  /**
+   * Open a link clicked in the webview: `#fragment` scrolls this editor, markdown files open in a
+   * markdown editor at the heading or `#L40` line, anything else goes to `vscode.open`
+   */
+  private async openLink(href: string) {
+    if (href.startsWith('#')) {
+      const line = fragmentLine(this._document.getText(), href.slice(1));
+      if (line !== undefined) {
+        this.revealLine(line);
+      }
+      return;
+    }
+    if (isExternal(href)) {
+      const uri = vscode.Uri.parse(href.startsWith('//') ? `https:${href}` : href);
+      if (!isAllowedLink(uri)) {
+        throw new Error(localize('Links with the {0}: scheme are blocked, see `markdown-editor.linkSchemes`', uri.scheme));
+      }
+      vscode.commands.executeCommand('vscode.open', uri);
+      return;
+    }
+    const { file, fragment } = resolveLocalTarget(href, NodePath.dirname(this._fsPath));
+    if (file) {
+      await this.openFileAt(vscode.Uri.file(file), fragment);
+    }
+  }
+
+  private async openFileAt(uri: vscode.Uri, fragment: string) {
+    if (/\.(md|markdown)$/i.test(uri.fsPath)) {
+      const panel = await EditorPanelMap.createOrShow(this._context, uri);
+      const line = panel && fragment ? fragmentLine(panel._document.getText(), fragment) : undefined;
+      if (panel && line !== undefined) {
+        panel.revealLine(line);
+      }
+      return;
+    }
+    const line = fragment ? fragmentLine('', fragment) : undefined;
+    await vscode.commands.executeCommand('vscode.open', uri, {
+      selection: line !== undefined ? new vscode.Range(line, 0, line, 0) : undefined,
+    });
+  }
+
+  /**
+   * Images and attachments are only saved to the disk in trusted workspaces
+   */
+  private canWriteAssets() {
+    if (isWorkspaceTrusted()) {
+      return true;
+    }
+    showError(
+      localize('Saving images and attachments is disabled in Restricted Mode, trust the workspace to enable it')
+    );
+    return false;
+  }
+
+  private postUploaded(files: string[]) {
+    const templates = getMediaTemplates();
+    this._panel.webview.postMessage({
+      command: 'uploaded',
+      files,
+      snippets: files.map((f) => mediaSnippet(f, templates)),
+    });
+  }
+
+  /**
+   * Pick local files and copy them into the assets folder by path, large files never go through the webview
+   */
+  private async attachFiles() {
+    if (!this.canWriteAssets()) {
+      return;
+    }
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      defaultUri: vscode.Uri.file(NodePath.dirname(this._uri.fsPath)),
+      openLabel: localize('Attach'),
+    });
+    if (!files || !files.length) {
+      return;
+    }
+    try {
+      this.postUploaded(await copyAttachments(this._uri, files));
+    } catch (error) {
+      console.error(error);
+      showError(localize('Failed to attach files: {0}', error.message));
+    }
+  }
+
+  /**
+   * Download remote images pasted into the webview, which then rewrites their links
+   */
+  private async downloadRemoteImages(urls: string[]) {
+    if (!urls.length || !this.canWriteAssets() || !(await shouldDownload(urls.length))) {
+      return;
+    }
+    const images = await downloadImages(this._uri, urls);
+    if (images.length) {
+      this._panel.webview.postMessage({ command: 'images-downloaded', images });
+    }
+  }
+
+  private revealInTextEditors(line: number, revealType: vscode.TextEditorRevealType) {
+    if (!EditorPanel.config.get<boolean>('syncScroll', true)) {
+      return;
+    }
+    this._ignoreEditorScrollUntil = Date.now() + 300;
+    const range = new vscode.Range(line, 0, line, 0);
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document.uri.toString() === this._uri.toString()) {
+        editor.revealRange(range, revealType);
+      }
+    }
+  }
+
+  // Text of each document version the webview has seen, used as the base of three-way merges
+  private _versionTexts = new Map<number, string>();
+  // Last document version that was not produced by an edit from the webview
+  private _lastExternalVersion = 0;
+
+  private rememberVersion(version: number, text: string) {
+    this._versionTexts.set(version, text);
+    if (this._versionTexts.size > 20) {
+      this._versionTexts.delete(this._versionTexts.keys().next().value);
+    }
+  }
+
+  private get _documentText() {
+    return this._document.getText().replace(/\r\n/g, '\n');
   }
 
   // Update the message handler for edit messages
-  private async handleEditMessage(content: string) {
-    if (!this._panel.active) {
-      return; // Only sync when webview is active
+  private async handleEditMessage(content: string, version?: number) {
+    const webviewText = content;
+    if (version !== undefined && version < this._lastExternalVersion) {
+      // The document changed after the version the webview edited, merge both sides
+      const base = this._versionTexts.get(version);
+      const merged =
+        base === undefined ? undefined : merge3(base, content, this._documentText);
+      if (merged === undefined && (await resolveConflict(this._uri, content)) === 'file') {
+        this._syncedText = webviewText;
+        await this._update();
+        return;
+      }
+      content = merged ?? content;
     }
     
     try {
       this._documentEditPending = true;
       
+      this._syncedText = webviewText;
+      this._ignoreEditorScrollUntil = Date.now() + 300;
       if (this._document) {
-        const edit = new vscode.WorkspaceEdit();
-        edit.replace(
-          this._document.uri,
-          new vscode.Range(0, 0, this._document.lineCount, 0),
-          content
-        );
-        await vscode.workspace.applyEdit(edit);
+        await this.applyContent(content);
       } else if (this._uri) {
         await vscode.workspace.fs.writeFile(this._uri, Buffer.from(content));
       } else {
-        showError(`Cannot find original file to save!`);
+        showError(localize('Cannot find original file to save!'));
       }
       
       this._updateEditTitle();
     } finally {
       this._documentEditPending = false;
     }
+
+    if (content !== webviewText) {
+      // send the merge result back to the webview
+      await this._update();
+    } else if (this._document) {
+      this.rememberVersion(this._document.version, content);
+      this._panel.webview.postMessage({ command: 'ack', version: this._document.version });
+    }
   }
 
-  private async syncToEditor() {
-    if (this._document) {
-      const content = await this._panel.webview.postMessage({ command: 'getContent' });
-      const edit = new vscode.WorkspaceEdit();
+  // Apply only the changed ranges, so undo stops and cursors in other editors survive
+  private async applyContent(content: string) {
+    const document = this._document;
+    // the webview always reports LF, compare in the document's own line endings
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const changes = diffText(document.getText(), withLineEndings(content, eol));
+    if (!changes.length) {
+      return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of changes) {
       edit.replace(
-        this._document.uri,
-        new vscode.Range(0, 0, this._document.lineCount, 0),
-        String(content || '')
+        document.uri,
+        new vscode.Range(
+          document.positionAt(change.start),
+          document.positionAt(change.end)
+        ),
+        change.text
       );
-      await vscode.workspace.applyEdit(edit);
     }
+    await vscode.workspace.applyEdit(edit);
   }
+
   constructor(
     private readonly _context: vscode.ExtensionContext,
     public readonly _panel: vscode.WebviewPanel,
@@ -464,91 +1035,21 @@ class EditorPanel {
     // Set up our improved handlers
     this.setupDocumentCloseHandler();
     this.setupDocumentChangeHandler();
+    this.setupEditorSyncHandler();
+
+    this._panel.onDidChangeViewState(() => {
+      if (this._panel.active) {
+        EditorPanelMap.setCurrent(this);
+      }
+      vscode.commands.executeCommand('setContext', 'markdownEditorFocus', !!EditorPanelMap.active());
+    }, null, this._disposables);
     
-    // Handle messages from the webview
+    // Handle messages one at a time, so an undo never overtakes the edit posted before it
     this._panel.webview.onDidReceiveMessage(
-      async (message) => {
-        debug('msg from webview review', message, this._panel.active);
-
-        switch (message.command) {
-          case 'ready':
-            this._update({
-              type: 'init',
-              options: {
-                useVscodeThemeColor: EditorPanel.config.get<boolean>(
-                  'useVscodeThemeColor'
-                ),
-                ...this._context.globalState.get(KeyVditorOptions),
-              },
-              theme:
-                vscode.window.activeColorTheme.kind ===
-                vscode.ColorThemeKind.Dark
-                  ? 'dark'
-                  : 'light',
-            });
-            break;
-          case 'save-options':
-            this._context.globalState.update(KeyVditorOptions, message.options);
-            break;
-          case 'info':
-            vscode.window.showInformationMessage(message.content);
-            break;
-          case 'error':
-            showError(message.content);
-            break;
-          case 'edit':
-            await this.handleEditMessage(message.content);
-            break;
-          case 'reset-config': {
-            await this._context.globalState.update(KeyVditorOptions, {});
-            break;
-          }
-          case 'save': {
-            await this.syncToEditor();
-            await this._document.save();
-            this._updateEditTitle();
-            break;
-          }
-          case 'upload': {
-            const assetsFolder = EditorPanel.getAssetsFolder(this._uri);
-            try {
-              await vscode.workspace.fs.createDirectory(
-                vscode.Uri.file(assetsFolder)
-              );
-            } catch (error) {
-              console.error(error);
-              showError(`Invalid image folder: ${assetsFolder}`);
-            }
-            await Promise.all(
-              message.files.map(async (f: any) => {
-                const content = Buffer.from(f.base64, 'base64');
-                return vscode.workspace.fs.writeFile(
-                  vscode.Uri.file(NodePath.join(assetsFolder, f.name)),
-                  content
-                );
-              })
-            );
-            const files = message.files.map((f: any) =>
-              NodePath.relative(
-                NodePath.dirname(this._fsPath),
-                NodePath.join(assetsFolder, f.name)
-              ).replace(/\\/g, '/')
-            );
-            this._panel.webview.postMessage({
-              command: 'uploaded',
-              files,
-            });
-            break;
-          }
-          case 'open-link': {
-            let url = message.href;
-            if (!/^http/.test(url)) {
-              url = NodePath.resolve(this._fsPath, '..', url);
-            }
-            vscode.commands.executeCommand('vscode.open', vscode.Uri.parse(url));
-            break;
-          }
-        }
+      (message) => {
+        this._messageQueue = this._messageQueue
+          .then(() => this.handleMessage(message))
+          .catch((error) => console.error(error));
       },
       null,
       this._disposables
@@ -580,27 +1081,207 @@ class EditorPanel {
 
   }
 
-  static getAssetsFolder(uri: vscode.Uri) {
-    const imageSaveFolder = (
-      EditorPanel.config.get<string>('imageSaveFolder') || 'assets'
-    )
-      .replace(
-        '${projectRoot}',
-        vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath || ''
-      )
-      .replace('${file}', uri.fsPath)
-      .replace(
-        '${fileBasenameNoExtension}',
-        NodePath.basename(uri.fsPath, NodePath.extname(uri.fsPath))
-      )
-      .replace('${dir}', NodePath.dirname(uri.fsPath));
-    const assetsFolder = NodePath.resolve(
-      NodePath.dirname(uri.fsPath),
-      imageSaveFolder
-    );
-    return assetsFolder;
+  private _messageQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Run VS Code's undo/redo on the TextDocument and push the result back to the webview,
+   * so both sides share one undo stack
+   */
+  private async handleHistoryMessage(command: 'undo' | 'redo') {
+    if (this.isCustomEditor) {
+      // VS Code routes undo/redo of a focused custom text editor to its TextDocument
+      await vscode.commands.executeCommand(command);
+    } else {
+      const editor = vscode.window.visibleTextEditors.find(
+        (e) => e.document.uri.toString() === this._uri.toString()
+      );
+      if (!editor) {
+        // No undo stack we can drive, let vditor undo and sync the result as a new edit
+        this._panel.webview.postMessage({ command: 'history', action: command });
+        return;
+      }
+      await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+      await vscode.commands.executeCommand(command);
+      this._panel.reveal(this._panel.viewColumn, false);
+    }
+    await this._update();
+    this._updateEditTitle();
+  }
+
+  /**
+   * Where vditor loads its i18n, lute, renderers and themes from, the copy in `media/dist/vditor` by default
+   */
+  private get _cdn() {
+    const cdn = EditorPanel.config.get<string>('cdn');
+    if (cdn) {
+      return cdn.replace(/\/+$/, '');
+    }
+    return this._panel.webview
+      .asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media/dist/vditor'))
+      .toString();
+  }
+
+  private _postInit() {
+    this._toolbarLayout = getToolbarLayout();
+    this._update({
+      type: 'init',
+      options: {
+        useVscodeThemeColor: EditorPanel.config.get<boolean>(
+          'useVscodeThemeColor'
+        ),
+        imageProcessing: EditorPanel.config.get('imageProcessing'),
+        sanitizeHtml: EditorPanel.config.get<boolean>('sanitizeHtml'),
+        frontMatter: {
+          enabled: EditorPanel.config.get<boolean>('frontMatterForm'),
+          schema: EditorPanel.config.get('frontMatterSchema'),
+        },
+        editor: getEditorOptions(this._context, this._uri),
+        // untrusted workspace: raw HTML is sanitized and diagrams are shown as source
+        restricted: !isWorkspaceTrusted(),
+        cdn: this._cdn,
+      },
+      theme: themeKind(),
+      language: vscode.env.language,
+      toolbar: this._toolbarLayout,
+    });
   }
 
+  /**
+   * Initialize the webview's editor again, e.g. when the workspace becomes trusted
+   */
+  public reload() {
+    if (this._webviewReady) {
+      this._postInit();
+    }
+  }
+
+  private async handleMessage(message: any) {
+    debug('msg from webview review', message, this._panel.active);
+
+    switch (message.command) {
+      case 'ready':
+        this._postInit();
+        this.showBrokenLinks(linkChecker?.brokenLinks(this._uri) || []);
+        this._webviewReady = true;
+        if (this._pendingRevealLine !== undefined) {
+          this.revealLine(this._pendingRevealLine);
+          this._pendingRevealLine = undefined;
+        }
+        break;
+      case 'save-options':
+        await saveFileOptions(this._context, this._uri, message.options);
+        break;
+      case 'info':
+        vscode.window.showInformationMessage(message.content);
+        break;
+      case 'error':
+        showError(message.content);
+        break;
+      case 'edit':
+        await this.handleEditMessage(message.content, message.version);
+        break;
+      case 'reset-config': {
+        // only the file's own options, the settings are left to the user
+        await resetFileOptions(this._context, this._uri);
+        break;
+      }
+      case 'save': {
+        // pending edits are flushed by the webview before it asks to save
+        await this._document.save();
+        this._updateEditTitle();
+        break;
+      }
+      case 'upload': {
+        if (!this.canWriteAssets()) {
+          break;
+        }
+        try {
+          const files = await saveUploads(this._uri, message.files);
+          this.postUploaded(files);
+        } catch (error) {
+          console.error(error);
+          showError(localize('Invalid image folder: {0}', getAssetsFolder(this._uri)));
+        }
+        break;
+      }
+      case 'attach':
+        // not awaited, the file picker must not hold back queued edits
+        this.attachFiles();
+        break;
+      case 'toolbar-action': {
+        // only commands from the user's own toolbar setting can be run from the webview
+        const action = findToolbarAction(this._toolbarLayout, message.name);
+        if (action?.command) {
+          vscode.commands
+            .executeCommand(action.command, ...(action.args || []))
+            .then(undefined, (error) => showError(error.message));
+        }
+        break;
+      }
+      case 'download-images':
+        // not awaited, the prompt must not hold back queued edits
+        this.downloadRemoteImages(message.urls);
+        break;
+      case 'scroll':
+        this.revealInTextEditors(message.line, vscode.TextEditorRevealType.AtTop);
+        break;
+      case 'cursor-moved':
+        this.revealInTextEditors(
+          message.line,
+          vscode.TextEditorRevealType.InCenterIfOutsideViewport
+        );
+        break;
+      case 'undo':
+      case 'redo':
+        await this.handleHistoryMessage(message.command);
+        break;
+      case 'export': {
+        if (!isWorkspaceTrusted()) {
+          showError(localize('Exporting is disabled in Restricted Mode, trust the workspace to enable it'));
+          break;
+        }
+        try {
+          const output = await exportDocument(this._uri, message.format, message.html);
+          const Open = localize('Open');
+          vscode.window
+            .showInformationMessage(localize('Exported to {0}', output), Open)
+            .then((choice) => {
+              if (choice === Open) {
+                vscode.env.openExternal(vscode.Uri.file(output));
+              }
+            });
+        } catch (error) {
+          showError(localize('Export failed! {0}', error instanceof Error ? error.message : String(error)));
+        }
+        break;
+      }
+      case 'wiki-complete':
+        // the first search scans the workspace, don't hold back queued edits
+        wikiCompletions(message.query, this._uri).then((files) =>
+          this._panel.webview.postMessage({ command: 'wiki-files', id: message.id, files })
+        );
+        break;
+      case 'front-matter-values':
+        collectFrontMatterValues(message.key).then((values) =>
+          this._panel.webview.postMessage({ command: 'front-matter-values', key: message.key, values })
+        );
+        break;
+      case 'open-link':
+        try {
+          if (message.wiki) {
+            const { uri, heading } = await resolveWikiLink(message.href, this._uri);
+            await this.openFileAt(uri, heading);
+          } else {
+            await this.openLink(message.href);
+          }
+        } catch (error) {
+          showError(localize('Cannot open {0}: {1}', message.href, error.message));
+        }
+        break;
+    }
+  }
+
+
   
   // Keep track of whether this panel should be kept alive
   private _keepAlive = true;
@@ -651,11 +1332,13 @@ class EditorPanel {
   private _init() {
     const webview = this._panel.webview;
 
-    this._panel.webview.html = this._getHtmlForWebview(webview);
+    this._panel.webview.html = editorHtml(webview, this._extensionUri, this._fsPath);
     this._panel.title = NodePath.basename(this._fsPath);
   }
   
   private _isEdit = false;
+  // the markdown the webview currently shows, with LF line endings
+  private _syncedText = '';
   
   private _updateEditTitle() {
     const isEdit = this._document.isDirty;
@@ -671,55 +1354,30 @@ class EditorPanel {
     props: {
       type?: 'init' | 'update';
       options?: any;
-      theme?: 'dark' | 'light';
+      theme?: ThemeKind;
+      language?: string;
+      toolbar?: ToolbarItem[];
     } = { options: void 0 }
   ) {
     const md = this._document
       ? this._document.getText()
       : (await vscode.workspace.fs.readFile(this._uri)).toString();
     // const dir = NodePath.dirname(this._document.fileName);
+    const text = md.replace(/\r\n/g, '\n');
+    // lets the webview map its caret and scroll anchor onto the new content
+    const changes =
+      props.type === 'init' ? undefined : diffText(this._syncedText, text);
+    this._syncedText = text;
+    const version = this._document?.version;
+    if (version !== undefined) {
+      this.rememberVersion(version, text);
+    }
     this._panel.webview.postMessage({
       command: 'update',
       content: md,
+      changes,
+      version,
       ...props,
     });
   }
-
-  private _getHtmlForWebview(webview: vscode.Webview) {
-    const toUri = (f: string) =>
-      webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, f));
-    const baseHref =
-      NodePath.dirname(
-        webview.asWebviewUri(vscode.Uri.file(this._fsPath)).toString()
-      ) + '/';
-    const toMediaPath = (f: string) => `media/dist/${f}`;
-    const JsFiles = ['main.js'].map(toMediaPath).map(toUri);
-    const CssFiles = ['main.css'].map(toMediaPath).map(toUri);
-
-    return (
-      `<!DOCTYPE html>
-			<html lang="en">
-			<head>
-				<meta charset="UTF-8">
-
-				<meta name="viewport" content="width=device-width, initial-scale=1.0">
-				<base href="${baseHref}" />
-
-
-				${CssFiles.map((f) => `<link href="${f}" rel="stylesheet">`).join('\n')}
-
-				<title>markdown editor</title>
-        <style>` +
-      EditorPanel.config.get<string>('customCss') +
-      `</style>
-			</head>
-			<body>
-				<div id="app"></div>
-
-
-				${JsFiles.map((f) => `<script src="${f}"></script>`).join('\n')}
-			</body>
-			</html>`
-    );
-  }
 }
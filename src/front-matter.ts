@@ -0,0 +1,25 @@
+import * as vscode from 'vscode'
+import { markdownFiles } from './wiki'
+import { frontMatterValues } from './shared/front-matter'
+
+const MaxValues = 200
+
+/**
+ * Values used for the front matter list `key` across the workspace, most used first
+ */
+export async function collectFrontMatterValues(key: string) {
+  const counts = new Map<string, number>()
+  for (const uri of await markdownFiles()) {
+    const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+    let text: string
+    try {
+      text = open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString()
+    } catch {
+      continue
+    }
+    frontMatterValues(text, key).forEach((v) => counts.set(v, (counts.get(v) || 0) + 1))
+  }
+  return [...counts.keys()]
+    .sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b))
+    .slice(0, MaxValues)
+}
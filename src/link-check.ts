@@ -0,0 +1,183 @@
+import * as vscode from 'vscode'
+import { BrokenLink, checkLinks, ExcludeGlob, MarkdownGlob } from './links'
+import { localize } from './localize'
+
+const BatchSize = 20
+
+function config() {
+  return vscode.workspace.getConfiguration('markdown-editor')
+}
+
+function positionAt(text: string, offset: number) {
+  const before = text.slice(0, offset)
+  const line = before.split('\n').length - 1
+  return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1))
+}
+
+function toDiagnostics(text: string, broken: BrokenLink[]) {
+  return broken.map(({ link, reason }) => {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(positionAt(text, link.start), positionAt(text, link.end)),
+      reason,
+      vscode.DiagnosticSeverity.Warning
+    )
+    diagnostic.source = 'markdown-editor'
+    return diagnostic
+  })
+}
+
+const isMarkdown = (doc: vscode.TextDocument) => doc.languageId === 'markdown' && doc.uri.scheme === 'file'
+
+/**
+ * Reports broken relative links, images and anchors of open markdown documents in the Problems panel
+ */
+export class LinkChecker implements vscode.Disposable {
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('markdown-editor-links')
+  private readonly results = new Map<string, BrokenLink[]>()
+  private readonly timers = new Map<string, NodeJS.Timeout>()
+  private readonly disposables: vscode.Disposable[] = [this.diagnostics]
+
+  /**
+   * @param onDidCheck called with the broken links of every checked document
+   */
+  constructor(private readonly onDidCheck: (uri: vscode.Uri, broken: BrokenLink[]) => void) {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((doc) => this.schedule(doc, 0)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.schedule(e.document, 500)),
+      vscode.workspace.onDidCloseTextDocument((doc) => this.clear(doc.uri)),
+      // a created, deleted or renamed file can fix or break links of every open document
+      vscode.workspace.onDidCreateFiles(() => this.checkOpenDocuments()),
+      vscode.workspace.onDidDeleteFiles(() => this.checkOpenDocuments()),
+      vscode.workspace.onDidRenameFiles(() => this.checkOpenDocuments()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('markdown-editor.validateLinks')) {
+          this.checkOpenDocuments()
+        }
+      })
+    )
+    this.checkOpenDocuments()
+  }
+
+  private get enabled() {
+    return config().get<boolean>('validateLinks', true)
+  }
+
+  /** Broken links found by the last check of `uri` */
+  brokenLinks(uri: vscode.Uri) {
+    return this.results.get(uri.toString()) || []
+  }
+
+  private schedule(doc: vscode.TextDocument, delay: number) {
+    if (!isMarkdown(doc)) {
+      return
+    }
+    const key = doc.uri.toString()
+    const timer = this.timers.get(key)
+    timer && clearTimeout(timer)
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key)
+        this.check(doc)
+      }, delay)
+    )
+  }
+
+  private checkOpenDocuments() {
+    vscode.workspace.textDocuments.forEach((doc) => this.schedule(doc, 0))
+  }
+
+  private clear(uri: vscode.Uri) {
+    this.diagnostics.delete(uri)
+    this.results.delete(uri.toString())
+  }
+
+  private async check(doc: vscode.TextDocument) {
+    if (!this.enabled) {
+      this.clear(doc.uri)
+      this.onDidCheck(doc.uri, [])
+      return
+    }
+    const text = doc.getText()
+    const broken = await checkLinks(text, doc.uri)
+    if (doc.isClosed || doc.getText() !== text) {
+      return
+    }
+    this.set(doc.uri, text, broken)
+  }
+
+  private set(uri: vscode.Uri, text: string, broken: BrokenLink[]) {
+    this.results.set(uri.toString(), broken)
+    this.diagnostics.set(uri, toDiagnostics(text, broken))
+    this.onDidCheck(uri, broken)
+  }
+
+  /**
+   * Check every markdown file of the workspace in batches, reporting to the Problems panel
+   */
+  async checkAll() {
+    const summary = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: localize('Checking markdown links'),
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const files = await vscode.workspace.findFiles(MarkdownGlob, ExcludeGlob)
+        const cache = new Map<string, Promise<string | undefined>>()
+        let brokenCount = 0
+        let fileCount = 0
+        const unreadable: string[] = []
+        for (let i = 0; i < files.length && !token.isCancellationRequested; i += BatchSize) {
+          const batch = files.slice(i, i + BatchSize)
+          await Promise.all(
+            batch.map(async (uri) => {
+              const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+              let text: string
+              try {
+                text = open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString()
+              } catch (error) {
+                // deleted during the scan or not readable, the other files are still checked
+                console.error(error)
+                unreadable.push(vscode.workspace.asRelativePath(uri))
+                return
+              }
+              const broken = await checkLinks(text, uri, cache)
+              this.set(uri, text, broken)
+              if (broken.length) {
+                brokenCount += broken.length
+                fileCount++
+              }
+            })
+          )
+          progress.report({
+            message: `${Math.min(i + BatchSize, files.length)}/${files.length}`,
+            increment: (batch.length / files.length) * 100,
+          })
+        }
+        return { brokenCount, fileCount, total: files.length, unreadable }
+      }
+    )
+    if (summary.unreadable.length) {
+      vscode.window.showWarningMessage(
+        localize('Cannot read {0} markdown file(s): {1}', summary.unreadable.length, summary.unreadable.join(', '))
+      )
+    }
+    if (summary.brokenCount) {
+      const action = await vscode.window.showWarningMessage(
+        localize('Found {0} broken links in {1} of {2} markdown files.', summary.brokenCount, summary.fileCount, summary.total),
+        localize('Show Problems')
+      )
+      if (action) {
+        vscode.commands.executeCommand('workbench.actions.view.problems')
+      }
+    } else {
+      vscode.window.showInformationMessage(localize('No broken links in {0} markdown files.', summary.total))
+    }
+  }
+
+  dispose() {
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
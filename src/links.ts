@@ -0,0 +1,161 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import { getHeadings, headingSlugs } from './outline'
+import { localize } from './localize'
+
+export interface LinkTarget {
+  /** the target as written in the markdown */
+  target: string
+  /** offset of the target in the text */
+  start: number
+  end: number
+  kind: 'link' | 'image' | 'definition' | 'html'
+}
+
+export const MarkdownGlob = '**/*.{md,markdown}'
+export const ExcludeGlob = '**/node_modules/**'
+
+const LinkPatterns: [RegExp, LinkTarget['kind']][] = [
+  [/(!?)\[(?:[^\]\\]|\\.)*\]\(\s*<?([^\s)>]+)>?(?:\s+["'(][^)]*)?\)/g, 'link'],
+  [/^ {0,3}\[[^\]]+\]:\s*<?(\S+?)>?(?:\s|$)/gm, 'definition'],
+  [/<(?:img|a|video|audio|source|embed)\b[^>]*?\s(?:src|href)\s*=\s*["']([^"']+)["']/gi, 'html'],
+]
+
+/**
+ * Blank out fenced and inline code so links in examples are ignored, keeping offsets intact
+ */
+export function maskCode(text: string) {
+  return text
+    .replace(/^ {0,3}(`{3,}|~{3,})[^]*?(^ {0,3}\1|$(?![^]))/gm, (m) => m.replace(/[^\n]/g, ' '))
+    .replace(/`[^`\n]+`/g, (m) => ' '.repeat(m.length))
+}
+
+/**
+ * Find link, image, reference definition and html src/href targets, skipping code blocks
+ */
+export function findLinks(text: string): LinkTarget[] {
+  const masked = maskCode(text)
+  const links: LinkTarget[] = []
+  for (const [pattern, kind] of LinkPatterns) {
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(masked))) {
+      const target = kind === 'link' ? match[2] : match[1]
+      const start = match.index + match[0].lastIndexOf(target)
+      links.push({
+        target,
+        start,
+        end: start + target.length,
+        kind: kind === 'link' && match[1] ? 'image' : kind,
+      })
+    }
+  }
+  return links.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * True for targets with a scheme (http:, mailto:, data:...) or protocol relative urls
+ */
+export function isExternal(target: string) {
+  return /^([a-z][\w+.-]*:|\/\/)/i.test(target) && !/^[a-z]:[\\/]/i.test(target)
+}
+
+/**
+ * Split a relative target into the file path (resolved against `dir`) and its fragment
+ */
+export function resolveLocalTarget(target: string, dir: string) {
+  const hash = target.indexOf('#')
+  const fragment = hash >= 0 ? target.slice(hash + 1) : ''
+  let path = (hash >= 0 ? target.slice(0, hash) : target).replace(/\?.*$/, '')
+  try {
+    path = decodeURIComponent(path)
+  } catch {
+    // keep malformed escapes as written
+  }
+  return {
+    file: path ? NodePath.resolve(dir, path) : undefined,
+    fragment,
+  }
+}
+
+export interface BrokenLink {
+  link: LinkTarget
+  reason: string
+}
+
+async function readMarkdown(file: string, cache: Map<string, Promise<string | undefined>>) {
+  if (!cache.has(file)) {
+    const open = vscode.workspace.textDocuments.find((d) => d.uri.fsPath === file)
+    cache.set(
+      file,
+      open
+        ? Promise.resolve(open.getText())
+        : Promise.resolve(vscode.workspace.fs.readFile(vscode.Uri.file(file))).then(
+            (content) => Buffer.from(content).toString(),
+            () => undefined
+          )
+    )
+  }
+  return cache.get(file)!
+}
+
+function hasAnchor(text: string, fragment: string) {
+  if (/^L\d+(-L?\d+)?$/.test(fragment)) {
+    return true
+  }
+  let slug = fragment
+  try {
+    slug = decodeURIComponent(fragment)
+  } catch {
+    // keep malformed escapes as written
+  }
+  slug = slug.toLowerCase()
+  return (
+    headingSlugs(getHeadings(text)).includes(slug) ||
+    new RegExp(`\\s(id|name)=["']${slug.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']`, 'i').test(text)
+  )
+}
+
+/**
+ * Check relative link and image targets and `#anchor` fragments of a markdown file,
+ * `cache` shares linked file contents between checks of a batch
+ */
+export async function checkLinks(
+  text: string,
+  uri: vscode.Uri,
+  cache = new Map<string, Promise<string | undefined>>()
+): Promise<BrokenLink[]> {
+  const dir = NodePath.dirname(uri.fsPath)
+  const broken: BrokenLink[] = []
+  await Promise.all(
+    findLinks(text).map(async (link) => {
+      if (isExternal(link.target)) {
+        return
+      }
+      const { file, fragment } = resolveLocalTarget(link.target, dir)
+      if (!file) {
+        if (fragment && !hasAnchor(text, fragment)) {
+          broken.push({ link, reason: localize('No heading matches #{0}', fragment) })
+        }
+        return
+      }
+      let stat: vscode.FileStat
+      try {
+        stat = await vscode.workspace.fs.stat(vscode.Uri.file(file))
+      } catch {
+        broken.push({ link, reason: localize('File not found: {0}', vscode.workspace.asRelativePath(file)) })
+        return
+      }
+      if (fragment && stat.type & vscode.FileType.File && /\.(md|markdown)$/i.test(file)) {
+        const linked = await readMarkdown(file, cache)
+        if (linked !== undefined && !hasAnchor(linked, fragment)) {
+          broken.push({
+            link,
+            reason: localize('No heading matches #{0} in {1}', fragment, vscode.workspace.asRelativePath(file)),
+          })
+        }
+      }
+    })
+  )
+  return broken.sort((a, b) => a.link.start - b.link.start)
+}
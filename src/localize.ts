@@ -0,0 +1,29 @@
+import * as vscode from 'vscode'
+import en from './l10n/bundle.l10n.json'
+import ja from './l10n/bundle.l10n.ja.json'
+import ko from './l10n/bundle.l10n.ko.json'
+import zhCn from './l10n/bundle.l10n.zh-cn.json'
+
+export type Message = keyof typeof en
+
+/**
+ * Bundles in the `vscode.l10n` format keyed by VS Code's display language.
+ * Every bundle has to translate every message of `bundle.l10n.json`, a missing key fails the type check.
+ */
+const Bundles: Record<string, Record<Message, string>> = {
+  ja,
+  ko,
+  'zh-cn': zhCn,
+}
+
+function bundle() {
+  const language = vscode.env.language.toLowerCase()
+  return Bundles[language] || Bundles[language.split('-')[0]] || en
+}
+
+/**
+ * Translate a host message to VS Code's display language, `{0}`, `{1}`... are replaced by `args`
+ */
+export function localize(message: Message, ...args: (string | number)[]) {
+  return bundle()[message].replace(/\{(\d+)\}/g, (match, i) => (i < args.length ? String(args[i]) : match))
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+
+/**
+ * Markdown inserted for an uploaded or attached file by extension, `*` is the fallback.
+ * Templates can use `${path}` (url encoded relative path) and `${name}` (file name)
+ */
+export const DefaultMediaTemplates: Record<string, string> = {
+  png: '![](${path})',
+  jpg: '![](${path})',
+  jpeg: '![](${path})',
+  gif: '![](${path})',
+  webp: '![](${path})',
+  svg: '![](${path})',
+  bmp: '![](${path})',
+  avif: '![](${path})',
+  mp4: '<video controls src="${path}"></video>',
+  webm: '<video controls src="${path}"></video>',
+  mov: '<video controls src="${path}"></video>',
+  mp3: '<audio controls src="${path}"></audio>',
+  ogg: '<audio controls src="${path}"></audio>',
+  wav: '<audio controls src="${path}"></audio>',
+  m4a: '<audio controls src="${path}"></audio>',
+  flac: '<audio controls src="${path}"></audio>',
+  pdf: '> 📄 [${name}](${path})',
+  zip: '<a href="${path}" download>${name}</a>',
+  '7z': '<a href="${path}" download>${name}</a>',
+  rar: '<a href="${path}" download>${name}</a>',
+  tar: '<a href="${path}" download>${name}</a>',
+  gz: '<a href="${path}" download>${name}</a>',
+  tgz: '<a href="${path}" download>${name}</a>',
+  '*': '[${name}](${path})',
+}
+
+/**
+ * Default templates merged with `markdown-editor.mediaTemplates`
+ */
+export function getMediaTemplates() {
+  const custom = vscode.workspace.getConfiguration('markdown-editor').get<Record<string, string>>('mediaTemplates') || {}
+  const templates = { ...DefaultMediaTemplates }
+  for (const [ext, template] of Object.entries(custom)) {
+    templates[ext.replace(/^\./, '').toLowerCase()] = template
+  }
+  return templates
+}
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;')
+
+/**
+ * Markdown snippet linking the asset at `path` (relative to the markdown file)
+ */
+export function mediaSnippet(path: string, templates = getMediaTemplates()) {
+  const ext = NodePath.extname(path).slice(1).toLowerCase()
+  const template = templates[ext] ?? templates['*'] ?? DefaultMediaTemplates['*']
+  const name = NodePath.posix.basename(path)
+  const url = encodeURI(path).replace(/\(/g, '%28').replace(/\)/g, '%29')
+  const label = template.trim().startsWith('<') ? escapeHtml(name) : name.replace(/[[\]]/g, '\\$&')
+  return template.replace(/\$\{path\}/g, () => url).replace(/\$\{name\}/g, () => label)
+}
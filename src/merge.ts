@@ -0,0 +1,37 @@
+import { applyChanges, diffText, TextChange } from './diff'
+
+function overlaps(a: TextChange, b: TextChange) {
+  if (a.start === a.end && b.start === b.end) {
+    // two insertions at the same place can't be ordered
+    return a.start === b.start
+  }
+  return a.start < b.end && b.start < a.end
+}
+
+function isSame(a: TextChange, b: TextChange) {
+  return a.start === b.start && a.end === b.end && a.text === b.text
+}
+
+/**
+ * Three-way merge of two texts derived from `base`. Returns undefined when
+ * both sides changed the same region.
+ */
+export function merge3(base: string, ours: string, theirs: string) {
+  const changes: TextChange[] = []
+  const theirChanges = diffText(base, theirs)
+  for (const change of diffText(base, ours)) {
+    const other = theirChanges.find((c) => overlaps(change, c))
+    if (other && !isSame(change, other)) {
+      return undefined
+    }
+    changes.push(change)
+  }
+  for (const change of theirChanges) {
+    if (!changes.some((c) => isSame(c, change))) {
+      changes.push(change)
+    }
+  }
+  // insertions go before a replacement starting at the same offset
+  changes.sort((a, b) => a.start - b.start || a.end - b.end)
+  return applyChanges(base, changes)
+}
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode'
+
+export interface Heading {
+  level: number
+  text: string
+  line: number
+}
+
+/**
+ * Collect ATX and setext headings, skipping front matter and fenced code blocks
+ */
+export function getHeadings(text: string): Heading[] {
+  const lines = text.split(/\r?\n/)
+  const headings: Heading[] = []
+  let fence: string | undefined
+  let start = 0
+  if (/^(---|\+\+\+)\s*$/.test(lines[0] || '')) {
+    const end = lines.findIndex((l, i) => i > 0 && l.trim() === lines[0].trim())
+    start = end > 0 ? end + 1 : 0
+  }
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i]
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line)
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1]
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = undefined
+      }
+      continue
+    }
+    if (fence) {
+      continue
+    }
+    const atx = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/.exec(line)
+    if (atx) {
+      headings.push({ level: atx[1].length, text: (atx[2] || '').trim(), line: i })
+      continue
+    }
+    const next = lines[i + 1]
+    if (line.trim() && next !== undefined && /^ {0,3}(=+|-+)\s*$/.test(next) && !/^ {0,3}([-*+>]|\d+[.)])\s/.test(line)) {
+      headings.push({ level: next.trim()[0] === '=' ? 1 : 2, text: line.trim(), line: i })
+      i++
+    }
+  }
+  return headings
+}
+
+/**
+ * GitHub style heading anchor
+ */
+export function slugify(text: string) {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/<[^>]*>/g, '')
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-')
+}
+
+/**
+ * Anchors of all headings in document order, with `-1`, `-2` suffixes for duplicates
+ */
+export function headingSlugs(headings: Heading[]) {
+  const seen = new Map<string, number>()
+  return headings.map((h) => {
+    const slug = slugify(h.text)
+    const count = seen.get(slug) || 0
+    seen.set(slug, count + 1)
+    return count ? `${slug}-${count}` : slug
+  })
+}
+
+interface HeadingNode {
+  heading: Heading
+  children: HeadingNode[]
+}
+
+function toTree(headings: Heading[]) {
+  const roots: HeadingNode[] = []
+  const stack: HeadingNode[] = []
+  for (const heading of headings) {
+    const node = { heading, children: [] }
+    while (stack.length && stack[stack.length - 1].heading.level >= heading.level) {
+      stack.pop()
+    }
+    ;(stack.length ? stack[stack.length - 1].children : roots).push(node)
+    stack.push(node)
+  }
+  return roots
+}
+
+/**
+ * Line of the heading matching `heading` by text or slug
+ */
+export function headingLine(text: string, heading: string) {
+  const headings = getHeadings(text)
+  const slugs = headingSlugs(headings)
+  const slug = slugify(heading)
+  const index = headings.findIndex(
+    (h, i) => h.text.toLowerCase() === heading.toLowerCase() || slugs[i] === slug || slugs[i] === heading
+  )
+  return index >= 0 ? headings[index].line : undefined
+}
+
+/**
+ * Line a link fragment points to: `L40`, `L40-L45` or a heading
+ */
+export function fragmentLine(text: string, fragment: string) {
+  const match = /^L(\d+)(-L?\d+)?$/.exec(fragment)
+  if (match) {
+    return Math.max(0, Number(match[1]) - 1)
+  }
+  try {
+    fragment = decodeURIComponent(fragment)
+  } catch {
+    // keep malformed escapes as written
+  }
+  return headingLine(text, fragment)
+}
+
+/**
+ * Headings of the markdown editor panel that was focused last
+ */
+export class OutlineProvider implements vscode.TreeDataProvider<HeadingNode> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<HeadingNode | undefined>()
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  constructor(private readonly getDocument: () => vscode.TextDocument | undefined) {}
+
+  refresh() {
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  getTreeItem(node: HeadingNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      node.heading.text,
+      node.children.length
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
+    )
+    item.description = `H${node.heading.level}`
+    item.command = {
+      command: 'markdown-editor.revealLine',
+      title: '',
+      arguments: [node.heading.line],
+    }
+    return item
+  }
+
+  getChildren(node?: HeadingNode): HeadingNode[] {
+    if (node) {
+      return node.children
+    }
+    const document = this.getDocument()
+    return document ? toTree(getHeadings(document.getText())) : []
+  }
+}
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import * as http from 'http'
+import * as https from 'https'
+import { saveUploads } from './assets'
+import { localize } from './localize'
+
+export interface RemoteFile {
+  data: Uint8Array
+  contentType?: string
+}
+
+/**
+ * Downloads a remote url, replaceable with `setRemoteFetcher` e.g. to stub the network
+ */
+export type RemoteFetcher = (url: string) => Promise<RemoteFile>
+
+const MaxRedirects = 5
+const MaxSize = 50 * 1024 * 1024
+
+const Extensions: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/bmp': '.bmp',
+  'image/avif': '.avif',
+}
+
+export const httpFetcher: RemoteFetcher = (url) =>
+  new Promise((resolve, reject) => {
+    const get = (url: string, redirects: number) => {
+      const client = url.startsWith('https:') ? https : http
+      const req = client.get(url, { timeout: 30 * 1000 }, (res) => {
+        const status = res.statusCode || 0
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume()
+          if (redirects >= MaxRedirects) {
+            return reject(new Error(`Too many redirects: ${url}`))
+          }
+          return get(new URL(res.headers.location, url).toString(), redirects + 1)
+        }
+        if (status !== 200) {
+          res.resume()
+          return reject(new Error(`HTTP ${status}: ${url}`))
+        }
+        const chunks: Buffer[] = []
+        let size = 0
+        res.on('data', (chunk: Buffer) => {
+          size += chunk.length
+          if (size > MaxSize) {
+            req.destroy(new Error(`File too large: ${url}`))
+            return
+          }
+          chunks.push(chunk)
+        })
+        res.on('end', () =>
+          resolve({ data: Buffer.concat(chunks), contentType: res.headers['content-type'] })
+        )
+        res.on('error', reject)
+      })
+      req.on('timeout', () => req.destroy(new Error(`Timeout: ${url}`)))
+      req.on('error', reject)
+    }
+    get(url, 0)
+  })
+
+let fetcher: RemoteFetcher = httpFetcher
+
+export function setRemoteFetcher(f: RemoteFetcher) {
+  fetcher = f
+}
+
+function fileName(url: string, contentType?: string) {
+  let name = ''
+  try {
+    name = decodeURIComponent(NodePath.posix.basename(new URL(url).pathname))
+  } catch {
+    // data or malformed urls get a generic name
+  }
+  const type = (contentType || '').split(';')[0].trim().toLowerCase()
+  if (!NodePath.extname(name) && Extensions[type]) {
+    name = (name || 'image') + Extensions[type]
+  }
+  return name || 'image'
+}
+
+/**
+ * Ask (per `markdown-editor.downloadRemoteImages`) whether to download pasted remote images
+ */
+export async function shouldDownload(count: number) {
+  const config = vscode.workspace.getConfiguration('markdown-editor')
+  const mode = config.get<string>('downloadRemoteImages')
+  if (mode === 'always' || mode === 'never') {
+    return mode === 'always'
+  }
+  const Download = localize('Download')
+  const Always = localize('Always Download')
+  const action = await vscode.window.showInformationMessage(
+    localize('Download {0} remote image(s) into the assets folder?', count),
+    Download,
+    Always
+  )
+  if (action === Always) {
+    await config.update('downloadRemoteImages', 'always', vscode.ConfigurationTarget.Global)
+  }
+  return !!action
+}
+
+/**
+ * Download `urls` into the assets folder of `uri`, returns the relative path of every url that succeeded.
+ * Failed urls are reported with `warn`.
+ */
+export async function downloadImages(
+  uri: vscode.Uri,
+  urls: string[],
+  warn: (message: string) => unknown = vscode.window.showWarningMessage
+) {
+  type Result = { url: string; file?: RemoteFile; path?: string; error?: Error }
+  const results = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: localize('Downloading remote images') },
+    async () => {
+      const downloads: Result[] = await Promise.all(
+        urls.map(async (url) => {
+          try {
+            return { url, file: await fetcher(url) }
+          } catch (error) {
+            console.error(error)
+            return { url, error: error as Error }
+          }
+        })
+      )
+      const fetched = downloads.filter((d) => d.file)
+      try {
+        // saved in one batch so images with the same file name get different names
+        const paths = await saveUploads(
+          uri,
+          fetched.map(({ url, file }) => ({
+            name: fileName(url, file!.contentType),
+            base64: Buffer.from(file!.data).toString('base64'),
+          }))
+        )
+        fetched.forEach((d, i) => (d.path = paths[i]))
+      } catch (error) {
+        console.error(error)
+        fetched.forEach((d) => (d.error = error as Error))
+      }
+      return downloads
+    }
+  )
+  const failed = results.filter((r) => r.error)
+  if (failed.length) {
+    warn(
+      `[markdown-editor] ${localize(
+        'Failed to download {0} image(s): {1}',
+        failed.length,
+        failed.map((r) => r.url).join(', ')
+      )}`
+    )
+  }
+  return results
+    .filter((r): r is Result & { path: string } => !!r.path)
+    .map(({ url, path }) => ({ url, path }))
+}
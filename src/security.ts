@@ -0,0 +1,124 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import { randomBytes } from 'crypto'
+
+const DefaultLinkSchemes = ['http', 'https', 'mailto']
+
+export function getNonce() {
+  return randomBytes(16).toString('base64').replace(/[+/=]/g, '')
+}
+
+function origin(url: string) {
+  try {
+    return new URL(url).origin
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Content-Security-Policy of the editor webview: only scripts with `nonce` (and the scripts they load, e.g. vditor's
+ * lazily loaded renderers) run, so raw HTML in a markdown file can't add inline scripts or event handlers.
+ * `cdn` is the `markdown-editor.cdn` mirror vditor's resources are loaded from instead of the extension.
+ */
+export function contentSecurityPolicy(webview: vscode.Webview, nonce: string, cdn?: string) {
+  const source = [webview.cspSource, cdn && origin(cdn)].filter(Boolean).join(' ')
+  return [
+    `default-src 'none'`,
+    `img-src ${source} https: http: data: blob:`,
+    `media-src ${source} https: http: data: blob:`,
+    `font-src ${source} https: data:`,
+    `style-src ${source} https: 'unsafe-inline'`,
+    // graphviz runs as wasm, mermaid/echarts compile some code at runtime
+    `script-src 'nonce-${nonce}' 'strict-dynamic' 'unsafe-eval'`,
+    // vditor loads its scripts with XHR, only from the extension or the cdn mirror so the editor works offline
+    `connect-src ${source}`,
+    `frame-src https:`,
+  ].join('; ')
+}
+
+/**
+ * Folders the webview may load files from: the extension, the workspace folders and the document's folder
+ */
+export function localResourceRoots(extensionUri: vscode.Uri, uri?: vscode.Uri) {
+  const roots = [extensionUri, ...(vscode.workspace.workspaceFolders || []).map((f) => f.uri)]
+  if (uri && uri.scheme === 'file') {
+    roots.push(vscode.Uri.file(NodePath.dirname(uri.fsPath)))
+  }
+  return roots
+}
+
+/**
+ * Whether a link clicked in the webview may be opened, only schemes of `markdown-editor.linkSchemes` are allowed
+ */
+export function isAllowedLink(uri: vscode.Uri) {
+  const schemes = vscode.workspace
+    .getConfiguration('markdown-editor')
+    .get<string[]>('linkSchemes', DefaultLinkSchemes)
+    .map((s) => s.toLowerCase())
+  return schemes.includes(uri.scheme.toLowerCase())
+}
+
+/**
+ * Keep `customCss` inside its `<style>` element, `\3c` is `<` in css strings and comments
+ */
+export function escapeStyle(css: string) {
+  return css.replace(/</g, '\\3c ')
+}
+
+/**
+ * The editor page of the markdown file `fsPath`: the webview bundle from the extension and relative links resolved
+ * against the file's folder
+ */
+export function editorHtml(webview: vscode.Webview, extensionUri: vscode.Uri, fsPath: string) {
+  const config = vscode.workspace.getConfiguration('markdown-editor')
+  const toUri = (f: string) => webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, f))
+  const baseHref = NodePath.dirname(webview.asWebviewUri(vscode.Uri.file(fsPath)).toString()) + '/'
+  const toMediaPath = (f: string) => `media/dist/${f}`
+  const JsFiles = ['main.js'].map(toMediaPath).map(toUri)
+  const CssFiles = ['main.css'].map(toMediaPath).map(toUri)
+  const nonce = getNonce()
+
+  return (
+    `<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+
+				<meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(webview, nonce, config.get<string>('cdn'))}">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<base href="${baseHref}" />
+
+
+				${CssFiles.map((f) => `<link href="${f}" rel="stylesheet">`).join('\n')}
+
+				<title>markdown editor</title>
+        <style>` +
+    escapeStyle(config.get<string>('customCss') || '') +
+    `</style>
+			</head>
+			<body>
+				<div id="app"></div>
+
+
+				${JsFiles.map((f) => `<script nonce="${nonce}" src="${f}"></script>`).join('\n')}
+			</body>
+			</html>`
+  )
+}
+
+/**
+ * Whether the workspace is trusted, VS Code before 1.56 has no Workspace Trust and trusts every workspace
+ */
+export function isWorkspaceTrusted() {
+  return vscode.workspace.isTrusted !== false
+}
+
+/**
+ * `vscode.workspace.onDidGrantWorkspaceTrust`, never fires on VS Code without Workspace Trust
+ */
+export function onDidGrantWorkspaceTrust(listener: () => void): vscode.Disposable {
+  return vscode.workspace.onDidGrantWorkspaceTrust
+    ? vscode.workspace.onDidGrantWorkspaceTrust(listener)
+    : new vscode.Disposable(() => {})
+}
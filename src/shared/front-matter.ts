@@ -0,0 +1,201 @@
+/**
+ * Parse and edit the YAML or TOML front matter at the start of a markdown document. Shared by the extension and the
+ * webview's front matter form, so it must not import `vscode` or the DOM.
+ */
+
+export type FieldType = 'string' | 'number' | 'date' | 'boolean' | 'list' | 'raw'
+export type FieldValue = string | number | boolean | string[]
+
+export interface Field {
+  key: string
+  type: FieldType
+  value: FieldValue
+  /** lines of the field in `FrontMatter.lines`, `end` is exclusive */
+  start: number
+  end: number
+  /** whether a list is written as `[a, b]` rather than `- a` lines */
+  inline: boolean
+  quote: '' | '"' | "'"
+  /** quote of every list item as written, so unchanged items keep it */
+  itemQuotes?: Record<string, Field['quote']>
+}
+
+export interface FrontMatter {
+  format: 'yaml' | 'toml'
+  /** the lines between the delimiters */
+  lines: string[]
+  fields: Field[]
+}
+
+const Delimiters: Record<string, FrontMatter['format']> = { '---': 'yaml', '+++': 'toml' }
+const DatePattern = /^\d{4}-\d{2}-\d{2}$/
+const NumberPattern = /^-?\d+(\.\d+)?$/
+
+function splitLines(markdown: string) {
+  return markdown.split('\n').map((l) => l.replace(/\r$/, ''))
+}
+
+function unquote(s: string): [string, Field['quote']] {
+  const q = s[0]
+  if ((q === '"' || q === "'") && s.length > 1 && s[s.length - 1] === q) {
+    const inner = s.slice(1, -1)
+    return [q === '"' ? inner.replace(/\\(["\\])/g, '$1') : inner.replace(/''/g, "'"), q]
+  }
+  return [s, '']
+}
+
+function parseScalar(raw: string, format: FrontMatter['format']): Pick<Field, 'type' | 'value' | 'quote'> {
+  const [value, quote] = unquote(raw.trim())
+  if (quote) {
+    return { type: 'string', value, quote }
+  }
+  if (value === 'true' || value === 'false') {
+    return { type: 'boolean', value: value === 'true', quote }
+  }
+  if (DatePattern.test(value)) {
+    return { type: 'date', value, quote }
+  }
+  if (NumberPattern.test(value)) {
+    return { type: 'number', value: Number(value), quote }
+  }
+  // multi-line strings, arrays and objects are left to the source
+  if (/^\[/.test(value) || (format === 'yaml' && /^[|>{]/.test(value)) || (format === 'toml' && /^[{"']/.test(value))) {
+    return { type: 'raw', value, quote }
+  }
+  return { type: 'string', value, quote }
+}
+
+function parseList(items: string[]): Pick<Field, 'type' | 'value' | 'quote' | 'itemQuotes'> {
+  const unquoted = items.map((item) => unquote(item.trim()))
+  const itemQuotes: Field['itemQuotes'] = {}
+  unquoted.forEach(([value, quote]) => (itemQuotes[value] = quote))
+  // new items are quoted like the first quoted one
+  const quoted = unquoted.find(([, quote]) => quote)
+  return { type: 'list', value: unquoted.map(([value]) => value), quote: quoted ? quoted[1] : '', itemQuotes }
+}
+
+function parseInlineList(raw: string) {
+  const inner = raw.trim().slice(1, -1).trim()
+  return parseList(inner ? inner.split(',') : [])
+}
+
+/**
+ * Parse the front matter at the start of `markdown`, undefined when there is none
+ */
+export function parseFrontMatter(markdown: string): FrontMatter | undefined {
+  const all = splitLines(markdown)
+  const format = Delimiters[all[0].trim()]
+  if (!format) {
+    return
+  }
+  const close = all.findIndex((l, i) => i > 0 && l.trim() === all[0].trim())
+  if (close < 0) {
+    return
+  }
+  const lines = all.slice(1, close)
+  const fields: Field[] = []
+  const keyPattern = format === 'yaml' ? /^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/ : /^([A-Za-z_][\w-]*)\s*=\s*(.*)$/
+  for (let i = 0; i < lines.length; i++) {
+    // keys after a toml [table] belong to the table
+    if (format === 'toml' && /^\s*\[/.test(lines[i])) {
+      break
+    }
+    const match = keyPattern.exec(lines[i])
+    if (!match) {
+      continue
+    }
+    const key = match[1]
+    const rest = (match[2] || '').trim()
+    let end = i + 1
+    // indented lines below a key belong to it
+    while (end < lines.length && /^(\s+\S|\s*- )/.test(lines[end])) {
+      end++
+    }
+    const base = { key, start: i, end, inline: true, quote: '' as Field['quote'] }
+    if (end > i + 1) {
+      const children = lines.slice(i + 1, end)
+      if (format === 'yaml' && !rest && children.every((l) => /^\s*- /.test(l))) {
+        fields.push({ ...base, ...parseList(children.map((l) => l.replace(/^\s*- /, ''))), inline: false })
+      } else {
+        fields.push({ ...base, type: 'raw', value: [lines[i], ...children].join('\n') })
+      }
+    } else if (/^\[.*\]$/.test(rest)) {
+      fields.push({ ...base, ...parseInlineList(rest) })
+    } else {
+      fields.push({ ...base, ...parseScalar(rest, format) })
+    }
+    i = end - 1
+  }
+  return { format, lines, fields }
+}
+
+function quoteString(value: string, format: FrontMatter['format'], quote: Field['quote']) {
+  if (format === 'toml' || quote === '"') {
+    return JSON.stringify(value)
+  }
+  if (quote === "'") {
+    return `'${value.replace(/'/g, "''")}'`
+  }
+  // strings yaml would read as another type or as syntax are quoted
+  if (
+    !value ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]|: | #|\s$/.test(value) ||
+    /^(true|false|null|~|yes|no|on|off)$/i.test(value) ||
+    NumberPattern.test(value) ||
+    DatePattern.test(value)
+  ) {
+    return JSON.stringify(value)
+  }
+  return value
+}
+
+function serializeField(field: Field, format: FrontMatter['format']) {
+  const { key, type, value } = field
+  const sep = format === 'yaml' ? ': ' : ' = '
+  if (type === 'list') {
+    const quotes = field.itemQuotes || {}
+    const items = (value as string[]).map((v) =>
+      quoteString(v, format, v in quotes ? quotes[v] : field.quote)
+    )
+    if (format === 'yaml' && !field.inline && items.length) {
+      return [`${key}:`, ...items.map((v) => `  - ${v}`)]
+    }
+    return [`${key}${sep}[${items.join(', ')}]`]
+  }
+  if (type === 'boolean' || type === 'number' || type === 'date') {
+    return [`${key}${sep}${value}`]
+  }
+  return [`${key}${sep}${quoteString(String(value), format, field.quote)}`]
+}
+
+/**
+ * Write a changed field back to `markdown` leaving every other line as it is, `value` undefined removes the field
+ */
+export function updateField(markdown: string, key: string, type: FieldType, value: FieldValue | undefined) {
+  const fm = parseFrontMatter(markdown)
+  const all = splitLines(markdown)
+  const eol = markdown.includes('\r\n') ? '\r\n' : '\n'
+  if (!fm) {
+    if (value === undefined) {
+      return markdown
+    }
+    const field: Field = { key, type, value, start: 0, end: 0, inline: true, quote: '' }
+    return ['---', ...serializeField(field, 'yaml'), '---', ''].join(eol) + markdown
+  }
+  const existing = fm.fields.find((f) => f.key === key)
+  const field: Field = existing
+    ? { ...existing, type, value: value as FieldValue }
+    : { key, type, value: value as FieldValue, start: fm.lines.length, end: fm.lines.length, inline: true, quote: '' }
+  const replacement = value === undefined ? [] : serializeField(field, fm.format)
+  // +1 skips the opening delimiter
+  all.splice(field.start + 1, field.end - field.start, ...replacement)
+  return all.join(eol)
+}
+
+/**
+ * Values of the list `key` in the front matter of `markdown`
+ */
+export function frontMatterValues(markdown: string, key: string) {
+  const field = parseFrontMatter(markdown)?.fields.find((f) => f.key === key)
+  return field && field.type === 'list' ? (field.value as string[]).filter(Boolean) : []
+}
@@ -0,0 +1,81 @@
+import * as assert from 'assert'
+import { applyChanges, diffText, withLineEndings } from '../diff'
+
+/** The changes turn `a` into `b`, are sorted and don't overlap */
+function assertDiff(a: string, b: string) {
+  const changes = diffText(a, b)
+  assert.strictEqual(applyChanges(a, changes), b)
+  for (let i = 1; i < changes.length; i++) {
+    assert.ok(changes[i - 1].end <= changes[i].start, JSON.stringify(changes))
+  }
+  return changes
+}
+
+const Lines = ['# Title\n', '\n', 'first\n', 'second\n', 'third\n']
+const text = (lines: string[]) => lines.join('')
+
+suite('diff', () => {
+  test('no changes for the same text', () => {
+    assert.deepStrictEqual(diffText('a\nb\n', 'a\nb\n'), [])
+  })
+
+  test('insert, delete and replace at the start of the file', () => {
+    assert.deepStrictEqual(assertDiff(text(Lines), 'new\n' + text(Lines)), [{ start: 0, end: 0, text: 'new\n' }])
+    assert.deepStrictEqual(assertDiff(text(Lines), text(Lines.slice(1))), [{ start: 0, end: 8, text: '' }])
+    assert.deepStrictEqual(assertDiff(text(Lines), '# Other\n' + text(Lines.slice(1))), [
+      { start: 2, end: 7, text: 'Other' },
+    ])
+  })
+
+  test('insert, delete and replace at the end of the file', () => {
+    const old = text(Lines)
+    assert.deepStrictEqual(assertDiff(old, old + 'fourth\n'), [{ start: old.length, end: old.length, text: 'fourth\n' }])
+    assert.deepStrictEqual(assertDiff(old, text(Lines.slice(0, -1))), [
+      { start: old.length - 6, end: old.length, text: '' },
+    ])
+    assert.deepStrictEqual(assertDiff(old, text(Lines.slice(0, -1)) + 'last'), [
+      { start: old.length - 6, end: old.length, text: 'last' },
+    ])
+  })
+
+  test('last line without a line break', () => {
+    assertDiff('a\nb', 'a\nb\nc')
+    assertDiff('a\nb\n', 'a\nb')
+    assertDiff('', 'a\n')
+    assertDiff('a\n', '')
+  })
+
+  test('changes in the middle keep the lines around them', () => {
+    const changes = assertDiff(text(Lines), text([...Lines.slice(0, 2), 'first!\n', 'inserted\n', ...Lines.slice(3)]))
+    assert.deepStrictEqual(changes, [{ start: 14, end: 14, text: '!\ninserted' }])
+  })
+
+  test('separate changes become separate ranges', () => {
+    const changes = assertDiff(text(Lines), text(['# Title 1\n', ...Lines.slice(1, 4), 'third 3\n']))
+    assert.strictEqual(changes.length, 2)
+  })
+
+  test('moved and repeated lines', () => {
+    assertDiff('a\nb\nc\na\nb\nc\n', 'b\nc\na\nb\nx\nc\n')
+    assertDiff('x\nx\nx\n', 'x\ny\nx\n')
+  })
+
+  test('large rewrites fall back to one range', () => {
+    const a = Array.from({ length: 1500 }, (_, i) => `a${i}\n`).join('')
+    const b = Array.from({ length: 1500 }, (_, i) => `b${i}\n`).join('')
+    assert.strictEqual(assertDiff(a, b).length, 1)
+  })
+
+  test('keeps the CRLF line endings of the document', () => {
+    const doc = 'a\r\nb\r\nc\r\n'
+    const webview = 'a\nb changed\nc\nd\n'
+    const result = applyChanges(doc, assertDiff(doc, withLineEndings(webview, '\r\n')))
+    assert.strictEqual(result, 'a\r\nb changed\r\nc\r\nd\r\n')
+    assert.ok(!/[^\r]\n/.test(result))
+  })
+
+  test('an unchanged CRLF document gets no changes', () => {
+    assert.deepStrictEqual(diffText('a\r\nb\r\n', withLineEndings('a\nb\n', '\r\n')), [])
+    assert.strictEqual(withLineEndings('a\r\nb\n', '\n'), 'a\nb\n')
+  })
+})
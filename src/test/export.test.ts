@@ -0,0 +1,48 @@
+import * as assert from 'assert'
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import * as fs from 'fs'
+import * as os from 'os'
+import { exportDocument, inlineImages } from '../export'
+
+const Png = Buffer.from('89504e470d0a1a0a', 'hex')
+const DataUrl = `data:image/png;base64,${Png.toString('base64')}`
+
+suite('export', () => {
+  let dir: string
+  let doc: vscode.Uri
+
+  setup(() => {
+    dir = fs.mkdtempSync(NodePath.join(os.tmpdir(), 'markdown-editor-'))
+    doc = vscode.Uri.file(NodePath.join(dir, 'note.md'))
+    fs.mkdirSync(NodePath.join(dir, 'assets'))
+    fs.writeFileSync(NodePath.join(dir, 'assets', 'a b&c.png'), Png)
+  })
+
+  teardown(() => vscode.workspace.fs.delete(vscode.Uri.file(dir), { recursive: true }))
+
+  test('inlines relative images however src is quoted', async () => {
+    const html = [
+      '<img src="assets/a%20b&amp;c.png">',
+      "<img alt='x' src='assets/a%20b&#38;c.png'>",
+      '<img src=assets/a%20b&amp;c.png title="t">',
+    ].join('\n')
+    const inlined = await inlineImages(html, doc)
+    assert.strictEqual(
+      inlined,
+      [`<img src="${DataUrl}">`, `<img alt='x' src="${DataUrl}">`, `<img src="${DataUrl}" title="t">`].join('\n')
+    )
+  })
+
+  test('keeps external and missing images', async () => {
+    const html = '<img src="https://example.com/a.png"><img src="data:image/gif;base64,R0l"><img src="missing.png">'
+    assert.strictEqual(await inlineImages(html, doc), html)
+  })
+
+  test('escapes the title', async () => {
+    const note = vscode.Uri.file(NodePath.join(dir, `Tom & Jerry's $& notes.md`))
+    const output = await exportDocument(note, 'html', '<html><head><title></title></head></html>')
+    const html = fs.readFileSync(output, 'utf8')
+    assert.ok(html.includes(`<title>Tom &amp; Jerry's $&amp; notes</title>`), html)
+  })
+})
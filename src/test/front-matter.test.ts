@@ -0,0 +1,112 @@
+import * as assert from 'assert'
+import { frontMatterValues, parseFrontMatter, updateField } from '../shared/front-matter'
+
+const Yaml = `---
+# written by hand
+title: Hello
+date: 2024-01-02
+draft: false
+weight: 3
+tags:
+  - a
+  - "b c"
+aliases: ['x', 'y']
+custom:
+  nested: value
+quoted: 'it''s'
+---
+
+# Body
+`
+
+suite('front matter', () => {
+  test('parses yaml fields', () => {
+    const fm = parseFrontMatter(Yaml)!
+    assert.strictEqual(fm.format, 'yaml')
+    const values = Object.fromEntries(fm.fields.map((f) => [f.key, [f.type, f.value]]))
+    assert.deepStrictEqual(values, {
+      title: ['string', 'Hello'],
+      date: ['date', '2024-01-02'],
+      draft: ['boolean', false],
+      weight: ['number', 3],
+      tags: ['list', ['a', 'b c']],
+      aliases: ['list', ['x', 'y']],
+      custom: ['raw', 'custom:\n  nested: value'],
+      quoted: ['string', "it's"],
+    })
+  })
+
+  test('changing a field keeps every other line, comments and the order', () => {
+    const updated = updateField(Yaml, 'title', 'string', 'Hello World')
+    assert.strictEqual(updated, Yaml.replace('title: Hello', 'title: Hello World'))
+    assert.strictEqual(updateField(updated, 'title', 'string', 'Hello'), Yaml)
+  })
+
+  test('writing the same values back changes nothing', () => {
+    for (const field of parseFrontMatter(Yaml)!.fields.filter((f) => f.type !== 'raw')) {
+      assert.strictEqual(updateField(Yaml, field.key, field.type, field.value), Yaml, field.key)
+    }
+  })
+
+  test('keeps the list style and quotes', () => {
+    assert.ok(updateField(Yaml, 'tags', 'list', ['a', 'b c', 'd']).includes('tags:\n  - a\n  - "b c"\n  - "d"\n'))
+    assert.ok(updateField(Yaml, 'aliases', 'list', ['x']).includes("aliases: ['x']\n"))
+    assert.ok(updateField(Yaml, 'quoted', 'string', "isn't").includes("quoted: 'isn''t'\n"))
+  })
+
+  test('quotes strings yaml would read as something else', () => {
+    for (const value of ['true', '12', '2024-01-02', 'a: b', '#tag', '', 'yes']) {
+      const updated = updateField(Yaml, 'title', 'string', value)
+      const title = parseFrontMatter(updated)!.fields.find((f) => f.key === 'title')!
+      assert.deepStrictEqual([title.type, title.value], ['string', value], updated)
+    }
+  })
+
+  test('adds and removes fields', () => {
+    const added = updateField(Yaml, 'author', 'string', 'me')
+    assert.strictEqual(added, Yaml.replace("quoted: 'it''s'\n", "quoted: 'it''s'\nauthor: me\n"))
+    assert.strictEqual(updateField(added, 'author', 'string', undefined), Yaml)
+    assert.strictEqual(updateField(Yaml, 'missing', 'string', undefined), Yaml)
+  })
+
+  test('keeps CRLF line endings', () => {
+    const crlf = Yaml.replace(/\n/g, '\r\n')
+    const updated = updateField(crlf, 'weight', 'number', 4)
+    assert.strictEqual(updated, crlf.replace('weight: 3', 'weight: 4'))
+    assert.ok(!/[^\r]\n/.test(updated))
+    assert.deepStrictEqual(
+      parseFrontMatter(crlf)!.fields.map((f) => f.value),
+      parseFrontMatter(Yaml)!.fields.map((f) => f.value)
+    )
+  })
+
+  test('documents without front matter', () => {
+    assert.strictEqual(parseFrontMatter('# Title\n'), undefined)
+    assert.strictEqual(parseFrontMatter('---\ntitle: not closed\n'), undefined)
+    assert.strictEqual(updateField('# Title\n', 'tags', 'list', ['a']), '---\ntags: [a]\n---\n# Title\n')
+    assert.strictEqual(updateField('# Title\r\n', 'title', 'string', 'T'), '---\r\ntitle: T\r\n---\r\n# Title\r\n')
+    assert.deepStrictEqual(frontMatterValues('# Title\n', 'tags'), [])
+  })
+
+  test('toml front matter', () => {
+    const toml = '+++\n# comment\ntitle = "Hello"\ntags = ["a", "b"]\n[extra]\ntitle = "other"\n+++\n'
+    const fm = parseFrontMatter(toml)!
+    assert.strictEqual(fm.format, 'toml')
+    assert.deepStrictEqual(
+      fm.fields.map((f) => [f.key, f.value]),
+      [
+        ['title', 'Hello'],
+        ['tags', ['a', 'b']],
+      ]
+    )
+    assert.strictEqual(updateField(toml, 'tags', 'list', ['a']), toml.replace('["a", "b"]', '["a"]'))
+    assert.strictEqual(updateField(toml, 'title', 'string', 'Hello'), toml)
+  })
+
+  test('list values for completion', () => {
+    assert.deepStrictEqual(frontMatterValues(Yaml, 'tags'), ['a', 'b c'])
+    assert.deepStrictEqual(frontMatterValues(Yaml, 'aliases'), ['x', 'y'])
+    assert.deepStrictEqual(frontMatterValues(Yaml, 'title'), [])
+    assert.deepStrictEqual(frontMatterValues(Yaml, 'missing'), [])
+  })
+})
@@ -0,0 +1,50 @@
+import * as assert from 'assert'
+import * as NodePath from 'path'
+import * as fs from 'fs'
+
+const Root = NodePath.join(__dirname, '../..')
+
+const readJson = (file: string): Record<string, string> => JSON.parse(fs.readFileSync(NodePath.join(Root, file), 'utf8'))
+
+const placeholders = (text: string) => (text.match(/\{\d+\}/g) || []).sort()
+
+/**
+ * Every translation of `locales` has the keys of `base`, and keeps the `{0}` placeholders of the message
+ */
+function assertComplete(base: string, locales: string[]) {
+  const messages = readJson(base)
+  assert.ok(locales.length, `no translations of ${base}`)
+  for (const locale of locales) {
+    const translated = readJson(locale)
+    assert.deepStrictEqual(Object.keys(translated).sort(), Object.keys(messages).sort(), `${locale} keys`)
+    for (const [key, text] of Object.entries(translated)) {
+      assert.deepStrictEqual(placeholders(text), placeholders(messages[key]), `${locale}: ${key}`)
+    }
+  }
+}
+
+const translations = (dir: string, prefix: string) =>
+  fs
+    .readdirSync(NodePath.join(Root, dir))
+    .filter((f) => f.startsWith(prefix) && f.endsWith('.json') && f !== `${prefix}json`)
+    .map((f) => NodePath.join(dir, f))
+
+suite('localization', () => {
+  test('host messages are translated in every bundle', () => {
+    assertComplete('src/l10n/bundle.l10n.json', translations('src/l10n', 'bundle.l10n.'))
+  })
+
+  test('package.json strings are translated in every package.nls file', () => {
+    assertComplete('package.nls.json', translations('.', 'package.nls.'))
+  })
+
+  test('every %key% of package.json is in package.nls.json', () => {
+    const manifest = fs.readFileSync(NodePath.join(Root, 'package.json'), 'utf8')
+    const messages = readJson('package.nls.json')
+    const keys = (manifest.match(/"%[^"%]+%"/g) || []).map((m) => m.slice(2, -2))
+    assert.ok(keys.length)
+    for (const key of keys) {
+      assert.ok(key in messages, `${key} is missing in package.nls.json`)
+    }
+  })
+})
@@ -0,0 +1,44 @@
+import * as assert from 'assert'
+import { merge3 } from '../merge'
+
+const Base = ['# Title', '', 'first', 'second', 'third', ''].join('\n')
+const edit = (replace: Record<string, string>) => Base.split('\n').map((l) => (l in replace ? replace[l] : l)).join('\n')
+
+suite('merge3', () => {
+  test('changes of one side', () => {
+    const ours = edit({ first: 'first!' })
+    assert.strictEqual(merge3(Base, ours, Base), ours)
+    assert.strictEqual(merge3(Base, Base, ours), ours)
+  })
+
+  test('changes of both sides in different lines', () => {
+    const ours = edit({ '# Title': '# New Title' })
+    const theirs = edit({ third: 'third!' })
+    assert.strictEqual(merge3(Base, ours, theirs), edit({ '# Title': '# New Title', third: 'third!' }))
+  })
+
+  test('insertions and deletions of both sides', () => {
+    const ours = 'intro\n' + Base
+    const theirs = Base.replace('second\n', '') + 'appendix\n'
+    assert.strictEqual(merge3(Base, ours, theirs), 'intro\n' + Base.replace('second\n', '') + 'appendix\n')
+  })
+
+  test('the same change on both sides', () => {
+    const both = edit({ second: 'second!' })
+    assert.strictEqual(merge3(Base, both, both), both)
+  })
+
+  test('conflicting changes of the same line', () => {
+    assert.strictEqual(merge3(Base, edit({ second: 'mine' }), edit({ second: 'theirs' })), undefined)
+  })
+
+  test('a deletion and a change of the same line', () => {
+    assert.strictEqual(merge3(Base, Base.replace('second\n', ''), edit({ second: 'theirs' })), undefined)
+  })
+
+  test('two insertions at the same place', () => {
+    const ours = Base.replace('second\n', 'mine\nsecond\n')
+    const theirs = Base.replace('second\n', 'theirs\nsecond\n')
+    assert.strictEqual(merge3(Base, ours, theirs), undefined)
+  })
+})
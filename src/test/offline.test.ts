@@ -0,0 +1,77 @@
+import * as assert from 'assert'
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import * as fs from 'fs'
+import { editorHtml, localResourceRoots } from '../security'
+
+// vditor resources a document with math, diagrams, code and emoji needs, relative to the `cdn` option
+const Resources = [
+  'dist/js/lute/lute.min.js',
+  'dist/js/i18n/en_US.js',
+  'dist/js/katex/katex.min.js',
+  'dist/js/katex/katex.min.css',
+  'dist/js/mermaid/mermaid.min.js',
+  'dist/js/highlight.js/highlight.min.js',
+  'dist/css/content-theme/light.css',
+  'dist/images/emoji',
+]
+
+const directive = (csp: string, name: string) =>
+  csp
+    .split(';')
+    .map((d) => d.trim().split(/\s+/))
+    .find(([n]) => n === name)!
+    .slice(1)
+
+/**
+ * VS Code has no API to watch the requests of a webview, so this checks what the editor page may load: its own
+ * files are webview resources of the extension, and the CSP only lets scripts connect to the webview's origin
+ */
+suite('offline', () => {
+  const extension = vscode.extensions.getExtension('kcf-jackson.markdown-editor')!
+  const doc = vscode.Uri.joinPath(extension.extensionUri, 'README.md')
+  let panel: vscode.WebviewPanel
+
+  setup(() => {
+    panel = vscode.window.createWebviewPanel('markdown-editor.test', 'test', vscode.ViewColumn.One, {
+      enableScripts: true,
+      localResourceRoots: localResourceRoots(extension.extensionUri, doc),
+    })
+  })
+
+  teardown(() => panel.dispose())
+
+  test('loads vditor from the extension, not a cdn', () => {
+    const cdn = vscode.workspace.getConfiguration('markdown-editor').inspect<string>('cdn')
+    assert.strictEqual(cdn && cdn.defaultValue, '')
+    const vditor = NodePath.join(extension.extensionPath, 'media/dist/vditor')
+    for (const resource of Resources) {
+      const file = NodePath.join(vditor, resource)
+      assert.ok(fs.existsSync(file), `${file} is missing, run \`npm --prefix media-src run copy-vditor\``)
+    }
+  })
+
+  test('scripts can only load from the webview', () => {
+    const { webview } = panel
+    const html = editorHtml(webview, extension.extensionUri, doc.fsPath)
+    const csp = /http-equiv="Content-Security-Policy" content="([^"]*)"/.exec(html)![1]
+    assert.deepStrictEqual(directive(csp, 'connect-src'), [webview.cspSource])
+    const scripts = directive(csp, 'script-src')
+    assert.ok(
+      scripts.every((source) => source.startsWith(`'`)),
+      `script-src has hosts: ${scripts.join(' ')}`
+    )
+  })
+
+  test('every src and href of the page is a webview resource', () => {
+    const { webview } = panel
+    const html = editorHtml(webview, extension.extensionUri, doc.fsPath)
+    const links = (html.match(/(?:src|href)="[^"]*"/g) || []).map((m) => m.slice(m.indexOf('"') + 1, -1))
+    const media = (f: string) => webview.asWebviewUri(vscode.Uri.joinPath(extension.extensionUri, 'media/dist', f))
+    const base = `${NodePath.posix.dirname(webview.asWebviewUri(doc).toString())}/`
+    assert.deepStrictEqual(links.sort(), [base, media('main.css').toString(), media('main.js').toString()].sort())
+    for (const file of ['main.js', 'main.css']) {
+      assert.ok(fs.existsSync(NodePath.join(extension.extensionPath, 'media/dist', file)), `${file} is not built`)
+    }
+  })
+})
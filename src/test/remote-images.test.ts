@@ -0,0 +1,70 @@
+import * as assert from 'assert'
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import * as fs from 'fs'
+import * as os from 'os'
+import { downloadImages, httpFetcher, RemoteFetcher, setRemoteFetcher } from '../remote-images'
+
+const Images: Record<string, string> = {
+  'https://a.example.com/x.png': 'image a',
+  'https://b.example.com/x.png': 'image b',
+  'https://c.example.com/photo?id=1': 'image c',
+}
+
+const stubFetcher: RemoteFetcher = async (url) => {
+  if (!(url in Images)) {
+    throw new Error(`HTTP 404: ${url}`)
+  }
+  return { data: Buffer.from(Images[url]), contentType: url.includes('photo') ? 'image/jpeg' : 'image/png' }
+}
+
+suite('remote images', () => {
+  let dir: string
+  let doc: vscode.Uri
+  let warnings: string[]
+  const warn = (message: string) => warnings.push(message)
+
+  setup(() => {
+    dir = fs.mkdtempSync(NodePath.join(os.tmpdir(), 'markdown-editor-'))
+    doc = vscode.Uri.file(NodePath.join(dir, 'note.md'))
+    fs.writeFileSync(doc.fsPath, '')
+    warnings = []
+    setRemoteFetcher(stubFetcher)
+  })
+
+  teardown(async () => {
+    setRemoteFetcher(httpFetcher)
+    await vscode.workspace.fs.delete(vscode.Uri.file(dir), { recursive: true })
+  })
+
+  const read = (path: string) => fs.readFileSync(NodePath.join(dir, path)).toString()
+
+  test('returns the link of every downloaded image', async () => {
+    const images = await downloadImages(doc, ['https://c.example.com/photo?id=1'], warn)
+    assert.strictEqual(images.length, 1)
+    assert.strictEqual(images[0].url, 'https://c.example.com/photo?id=1')
+    assert.ok(/^assets\/.*photo\.jpg$/.test(images[0].path), images[0].path)
+    assert.strictEqual(read(images[0].path), 'image c')
+    assert.deepStrictEqual(warnings, [])
+  })
+
+  test('images with the same file name do not overwrite each other', async () => {
+    const images = await downloadImages(doc, ['https://a.example.com/x.png', 'https://b.example.com/x.png'], warn)
+    assert.strictEqual(images.length, 2)
+    assert.notStrictEqual(images[0].path, images[1].path)
+    assert.strictEqual(read(images[0].path), 'image a')
+    assert.strictEqual(read(images[1].path), 'image b')
+  })
+
+  test('warns about failed downloads and keeps the others', async () => {
+    const images = await downloadImages(doc, ['https://a.example.com/x.png', 'https://d.example.com/missing.png'], warn)
+    assert.deepStrictEqual(
+      images.map((i) => i.url),
+      ['https://a.example.com/x.png']
+    )
+    assert.strictEqual(read(images[0].path), 'image a')
+    assert.strictEqual(warnings.length, 1)
+    assert.ok(warnings[0].includes('https://d.example.com/missing.png'))
+    assert.ok(!warnings[0].includes('https://a.example.com/x.png'))
+  })
+})
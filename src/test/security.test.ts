@@ -0,0 +1,116 @@
+import * as assert from 'assert'
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import { contentSecurityPolicy, escapeStyle, getNonce, isAllowedLink, localResourceRoots } from '../security'
+
+const webview = { cspSource: 'https://file+.vscode-resource.vscode-cdn.net' } as vscode.Webview
+
+const directive = (csp: string, name: string) =>
+  csp
+    .split(';')
+    .map((d) => d.trim())
+    .find((d) => d.startsWith(`${name} `))
+
+suite('security', () => {
+  suite('isAllowedLink', () => {
+    const config = () => vscode.workspace.getConfiguration('markdown-editor')
+
+    teardown(() => config().update('linkSchemes', undefined, vscode.ConfigurationTarget.Global))
+
+    test('opens http, https and mailto links', () => {
+      for (const link of ['http://example.com', 'https://example.com/a?b#c', 'mailto:someone@example.com']) {
+        assert.ok(isAllowedLink(vscode.Uri.parse(link)), link)
+      }
+    })
+
+    test('blocks command, javascript and other schemes', () => {
+      const blocked = [
+        'command:workbench.action.terminal.new',
+        'command:markdown-editor.openEditor?%5B%22x%22%5D',
+        'javascript:alert(1)',
+        'JavaScript:alert(1)',
+        'vscode://extension/id',
+        'file:///etc/passwd',
+        'data:text/html,<script>alert(1)</script>',
+      ]
+      for (const link of blocked) {
+        assert.ok(!isAllowedLink(vscode.Uri.parse(link)), link)
+      }
+    })
+
+    test('follows markdown-editor.linkSchemes', async () => {
+      await config().update('linkSchemes', ['https', 'Obsidian'], vscode.ConfigurationTarget.Global)
+      assert.ok(isAllowedLink(vscode.Uri.parse('obsidian://open?vault=notes')))
+      assert.ok(isAllowedLink(vscode.Uri.parse('https://example.com')))
+      assert.ok(!isAllowedLink(vscode.Uri.parse('http://example.com')))
+      assert.ok(!isAllowedLink(vscode.Uri.parse('mailto:someone@example.com')))
+    })
+  })
+
+  suite('contentSecurityPolicy', () => {
+    test('only runs scripts with the nonce', () => {
+      const csp = contentSecurityPolicy(webview, 'abc123')
+      assert.strictEqual(directive(csp, 'default-src'), `default-src 'none'`)
+      const scripts = directive(csp, 'script-src')!
+      assert.ok(scripts.includes(`'nonce-abc123'`), scripts)
+      assert.ok(!scripts.includes(`'unsafe-inline'`), scripts)
+      assert.ok(!scripts.includes('https:'), scripts)
+      assert.ok(!scripts.includes(webview.cspSource), scripts)
+    })
+
+    test('loads resources from the webview and the cdn mirror', () => {
+      const csp = contentSecurityPolicy(webview, 'abc123', 'https://mirror.example.com/vditor@3.11.3/')
+      for (const name of ['img-src', 'style-src', 'font-src', 'connect-src']) {
+        const sources = directive(csp, name)!
+        assert.ok(sources.includes(webview.cspSource), sources)
+        assert.ok(sources.includes('https://mirror.example.com'), sources)
+        assert.ok(!sources.includes('vditor@3.11.3'), sources)
+      }
+    })
+
+    test('ignores an invalid cdn', () => {
+      assert.strictEqual(contentSecurityPolicy(webview, 'abc123', 'not a url'), contentSecurityPolicy(webview, 'abc123'))
+    })
+
+    test('nonces are random', () => {
+      const nonces = new Set(Array.from({ length: 10 }, getNonce))
+      assert.strictEqual(nonces.size, 10)
+      nonces.forEach((nonce) => assert.ok(/^[A-Za-z0-9]{16,}$/.test(nonce), nonce))
+    })
+  })
+
+  suite('localResourceRoots', () => {
+    const extension = vscode.Uri.file(NodePath.join(__dirname, '../..'))
+    const paths = (roots: vscode.Uri[]) => roots.map((r) => r.toString())
+
+    test('allows the extension, the workspace folders and the document folder', () => {
+      const doc = vscode.Uri.file(NodePath.join(__dirname, 'notes', 'note.md'))
+      const roots = paths(localResourceRoots(extension, doc))
+      assert.strictEqual(roots[0], extension.toString())
+      for (const folder of vscode.workspace.workspaceFolders || []) {
+        assert.ok(roots.includes(folder.uri.toString()), folder.uri.toString())
+      }
+      assert.ok(roots.includes(vscode.Uri.file(NodePath.join(__dirname, 'notes')).toString()))
+    })
+
+    test('adds no folder for documents that are not files', () => {
+      const roots = localResourceRoots(extension, vscode.Uri.parse('untitled:Untitled-1'))
+      assert.deepStrictEqual(paths(roots), paths(localResourceRoots(extension)))
+    })
+  })
+
+  suite('escapeStyle', () => {
+    test('custom css cannot close its style element', () => {
+      const css = 'a { color: red } </style><script>alert(1)</script><style>'
+      const escaped = escapeStyle(css)
+      assert.ok(!/<\/style/i.test(escaped), escaped)
+      assert.ok(!escaped.includes('<'), escaped)
+      assert.ok(escaped.startsWith('a { color: red } '))
+    })
+
+    test('keeps css without < unchanged', () => {
+      const css = 'body > .vditor { content: "a\\3c b"; }'
+      assert.strictEqual(escapeStyle(css), css)
+    })
+  })
+})
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode'
+import { localize } from './localize'
+
+/** Toolbar items implemented by vditor or the webview that `markdown-editor.toolbar` can refer to by name */
+export const BuiltinToolbarItems = [
+  // vditor
+  'emoji',
+  'headings',
+  'bold',
+  'italic',
+  'strike',
+  'link',
+  'list',
+  'ordered-list',
+  'check',
+  'outdent',
+  'indent',
+  'quote',
+  'line',
+  'code',
+  'inline-code',
+  'insert-before',
+  'insert-after',
+  'upload',
+  'record',
+  'table',
+  'undo',
+  'redo',
+  'fullscreen',
+  'edit-mode',
+  'both',
+  'preview',
+  'outline',
+  'code-theme',
+  'content-theme',
+  'export',
+  'devtools',
+  'info',
+  'help',
+  'br',
+  '|',
+  // webview
+  'save',
+  'attach',
+  'vscode-undo',
+  'vscode-redo',
+  'copy-markdown',
+  'copy-html',
+  'export-html',
+  'export-pdf',
+  'reset-config',
+]
+
+export interface ToolbarAction {
+  name: string
+  tip?: string
+  /** svg or text */
+  icon?: string
+  hotkey?: string
+  /** markdown to insert, `${selection}` is replaced by the selected text */
+  insert?: string
+  /** wrap the selection */
+  prefix?: string
+  suffix?: string
+  /** VS Code command id */
+  command?: string
+  args?: unknown[]
+}
+
+export interface ToolbarGroup {
+  name: string
+  tip?: string
+  icon?: string
+  toolbar: (string | ToolbarAction)[]
+}
+
+export type ToolbarItem = string | ToolbarAction | ToolbarGroup
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+function validateItem(item: unknown, nested: boolean, names: Set<string>, errors: string[]) {
+  if (typeof item === 'string') {
+    if (!BuiltinToolbarItems.includes(item)) {
+      errors.push(localize('unknown item "{0}"', item))
+    }
+    return
+  }
+  if (!isObject(item) || typeof item.name !== 'string' || !item.name) {
+    errors.push(localize('{0} needs a name', JSON.stringify(item)))
+    return
+  }
+  const { name } = item
+  if (names.has(name)) {
+    errors.push(localize('duplicate item "{0}"', name))
+  }
+  names.add(name)
+  for (const key of ['tip', 'icon', 'hotkey', 'insert', 'prefix', 'suffix', 'command']) {
+    if (key in item && typeof item[key] !== 'string') {
+      errors.push(localize('"{0}".{1} must be a string', name, key))
+    }
+  }
+  if ('toolbar' in item) {
+    if (nested) {
+      errors.push(localize('"{0}" groups can\'t be nested', name))
+    } else if (!Array.isArray(item.toolbar)) {
+      errors.push(localize('"{0}".toolbar must be an array', name))
+    } else {
+      item.toolbar.forEach((child: unknown) => validateItem(child, true, names, errors))
+    }
+    return
+  }
+  if (BuiltinToolbarItems.includes(name)) {
+    // built-in items can be listed as objects to change the tip or icon
+    return
+  }
+  const actions = ['insert', 'command'].filter((key) => key in item)
+  if ('prefix' in item || 'suffix' in item) {
+    actions.push('prefix/suffix')
+  }
+  if (actions.length !== 1) {
+    errors.push(localize('"{0}" needs exactly one of insert, prefix/suffix or command', name))
+  }
+  if ('args' in item && !Array.isArray(item.args)) {
+    errors.push(localize('"{0}".args must be an array', name))
+  }
+}
+
+/**
+ * Check a `markdown-editor.toolbar` value, returns the problems found
+ */
+export function validateToolbar(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [localize('the setting must be an array')]
+  }
+  const errors: string[] = []
+  const names = new Set<string>()
+  value.forEach((item) => validateItem(item, false, names, errors))
+  return errors
+}
+
+// the invalid setting warned about last, every open editor reads the layout but the warning is shown once per change
+let warnedSetting: string | undefined
+
+/**
+ * The toolbar layout from the settings, undefined to use the default layout when it's not set or invalid
+ */
+export function getToolbarLayout(): ToolbarItem[] | undefined {
+  const value = vscode.workspace.getConfiguration('markdown-editor').get<unknown>('toolbar')
+  if (value === undefined || value === null) {
+    warnedSetting = undefined
+    return
+  }
+  const errors = validateToolbar(value)
+  if (!errors.length) {
+    warnedSetting = undefined
+    return value as ToolbarItem[]
+  }
+  const setting = JSON.stringify(value)
+  if (setting !== warnedSetting) {
+    warnedSetting = setting
+    vscode.window.showWarningMessage(
+      `[markdown-editor] ${localize('Invalid toolbar setting, using the default toolbar: {0}', errors.join('; '))}`
+    )
+  }
+}
+
+/**
+ * Find the custom action `name` of the toolbar setting
+ */
+export function findToolbarAction(layout: ToolbarItem[] | undefined, name: string): ToolbarAction | undefined {
+  for (const item of layout || []) {
+    if (typeof item === 'string') {
+      continue
+    }
+    if ('toolbar' in item) {
+      const found = findToolbarAction(item.toolbar, name)
+      if (found) {
+        return found
+      }
+    } else if (item.name === name) {
+      return item
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+
+/**
+ * Expand `${projectRoot}`, `${file}`, `${fileBasenameNoExtension}` and `${dir}` for a markdown file,
+ * relative results are resolved against the file's directory
+ */
+export function resolvePathTemplate(template: string, uri: vscode.Uri) {
+  const path = template
+    .replace(
+      '${projectRoot}',
+      vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath || ''
+    )
+    .replace('${file}', uri.fsPath)
+    .replace(
+      '${fileBasenameNoExtension}',
+      NodePath.basename(uri.fsPath, NodePath.extname(uri.fsPath))
+    )
+    .replace('${dir}', NodePath.dirname(uri.fsPath))
+  return NodePath.resolve(NodePath.dirname(uri.fsPath), path)
+}
@@ -0,0 +1,294 @@
+import * as vscode from 'vscode'
+import * as NodePath from 'path'
+import { ExcludeGlob, findLinks, isExternal, MarkdownGlob, maskCode, resolveLocalTarget } from './links'
+import { localize } from './localize'
+import { isWorkspaceTrusted } from './security'
+
+export interface WikiLink {
+  /** the text between `[[` and `]]` */
+  target: string
+  start: number
+  end: number
+}
+
+const WikiLinkPattern = /\[\[([^[\]\n]+)\]\]/g
+
+const MaxCompletions = 20
+
+/**
+ * Find `[[Note]]`, `[[Note#Heading]]` and `[[Note|Alias]]` links, skipping code blocks
+ */
+export function findWikiLinks(text: string): WikiLink[] {
+  const masked = maskCode(text)
+  const links: WikiLink[] = []
+  WikiLinkPattern.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = WikiLinkPattern.exec(masked))) {
+    links.push({ target: match[1], start: match.index + 2, end: match.index + 2 + match[1].length })
+  }
+  return links
+}
+
+/**
+ * Split a wiki link target into the note name and heading, dropping the alias
+ */
+export function parseWikiTarget(target: string) {
+  const [link] = target.split('|')
+  const hash = link.indexOf('#')
+  return {
+    name: (hash >= 0 ? link.slice(0, hash) : link).trim(),
+    heading: hash >= 0 ? link.slice(hash + 1).trim() : '',
+  }
+}
+
+let filesCache: Thenable<vscode.Uri[]> | undefined
+const _onDidChangeFiles = new vscode.EventEmitter<void>()
+/** Fired when markdown files are created, changed on disk or deleted */
+export const onDidChangeMarkdownFiles = _onDidChangeFiles.event
+
+export function markdownFiles() {
+  if (!filesCache) {
+    filesCache = vscode.workspace.findFiles(MarkdownGlob, ExcludeGlob)
+  }
+  return filesCache
+}
+
+/**
+ * Keep the markdown file list used by completion, resolution and backlinks up to date
+ */
+export function watchMarkdownFiles(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(MarkdownGlob)
+  const invalidate = (uri: vscode.Uri) => {
+    filesCache = undefined
+    linksCache.delete(uri.toString())
+    _onDidChangeFiles.fire()
+  }
+  const changed = (uri: vscode.Uri) => {
+    linksCache.delete(uri.toString())
+    _onDidChangeFiles.fire()
+  }
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidCreate(invalidate),
+    watcher.onDidDelete(invalidate),
+    watcher.onDidChange(changed),
+    // saves are seen before the watcher reports them
+    vscode.workspace.onDidSaveTextDocument((doc) => linksCache.delete(doc.uri.toString()))
+  )
+}
+
+const noteName = (uri: vscode.Uri) => NodePath.basename(uri.fsPath, NodePath.extname(uri.fsPath))
+
+function notePath(uri: vscode.Uri) {
+  const path = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/')
+  return path.slice(0, path.length - NodePath.extname(path).length)
+}
+
+/**
+ * Find the note a wiki link points to: a path relative to the workspace or the file, or a note name anywhere
+ * in the workspace, preferring the linking file's folder
+ */
+export function findWikiTarget(name: string, from: vscode.Uri, files: vscode.Uri[]) {
+  if (!name) {
+    return from
+  }
+  const normalized = name.replace(/\\/g, '/').replace(/\.(md|markdown)$/i, '').toLowerCase()
+  if (normalized.includes('/')) {
+    const relative = NodePath.resolve(NodePath.dirname(from.fsPath), normalized)
+    return files.find(
+      (f) =>
+        notePath(f).toLowerCase() === normalized ||
+        f.fsPath.slice(0, -NodePath.extname(f.fsPath).length).toLowerCase() === relative.toLowerCase()
+    )
+  }
+  const dir = NodePath.dirname(from.fsPath)
+  return files
+    .filter((f) => noteName(f).toLowerCase() === normalized)
+    .sort(
+      (a, b) =>
+        Number(NodePath.dirname(b.fsPath) === dir) - Number(NodePath.dirname(a.fsPath) === dir) ||
+        a.fsPath.length - b.fsPath.length
+    )[0]
+}
+
+/**
+ * Markdown files matching `query` for `[[` completion, ambiguous names are completed with their path
+ */
+export async function wikiCompletions(query: string, from: vscode.Uri) {
+  const files = (await markdownFiles()).filter((f) => f.fsPath !== from.fsPath)
+  const counts = new Map<string, number>()
+  files.forEach((f) => {
+    const name = noteName(f).toLowerCase()
+    counts.set(name, (counts.get(name) || 0) + 1)
+  })
+  const q = query.toLowerCase()
+  return files
+    .map((f) => ({ uri: f, name: noteName(f), path: notePath(f) }))
+    .filter((f) => f.path.toLowerCase().includes(q))
+    .sort(
+      (a, b) =>
+        Number(b.name.toLowerCase().startsWith(q)) - Number(a.name.toLowerCase().startsWith(q)) ||
+        a.path.localeCompare(b.path)
+    )
+    .slice(0, MaxCompletions)
+    .map((f) => ({
+      link: (counts.get(f.name.toLowerCase()) || 0) > 1 ? f.path : f.name,
+      path: vscode.workspace.asRelativePath(f.uri),
+    }))
+}
+
+/**
+ * Resolve a wiki link from `from`, creating the note next to it when it does not exist
+ */
+export async function resolveWikiLink(target: string, from: vscode.Uri) {
+  const { name, heading } = parseWikiTarget(target)
+  let uri = findWikiTarget(name, from, await markdownFiles())
+  if (!uri) {
+    const file = name.replace(/\\/g, '/').replace(/\.(md|markdown)$/i, '') + '.md'
+    uri = vscode.Uri.file(NodePath.resolve(NodePath.dirname(from.fsPath), file))
+    if (!isWorkspaceTrusted()) {
+      throw new Error(localize('Cannot create {0} in Restricted Mode, trust the workspace to create notes', uri.fsPath))
+    }
+    // a link like [[../../x]] must not write files outside the workspace
+    if (!vscode.workspace.getWorkspaceFolder(uri) && NodePath.dirname(uri.fsPath) !== NodePath.dirname(from.fsPath)) {
+      throw new Error(localize('Cannot create {0} outside the workspace', uri.fsPath))
+    }
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(NodePath.dirname(uri.fsPath)))
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(`# ${NodePath.basename(file, '.md')}\n`))
+    filesCache = undefined
+  }
+  return { uri, heading }
+}
+
+interface BacklinkFile {
+  uri: vscode.Uri
+  refs: BacklinkRef[]
+}
+
+interface BacklinkRef {
+  uri: vscode.Uri
+  line: number
+  text: string
+}
+
+type BacklinkNode = BacklinkFile | BacklinkRef
+
+/** Links of a markdown file, parsed once per version of the file */
+interface FileLinks {
+  /** note names of the wiki links */
+  wiki: { name: string; line: number }[]
+  /** files of the relative links */
+  local: { file: string; line: number }[]
+  lines: string[]
+}
+
+// cleared per file by `watchMarkdownFiles` when it changes on disk or is saved
+const linksCache = new Map<string, FileLinks>()
+
+function parseLinks(uri: vscode.Uri, text: string): FileLinks {
+  const dir = NodePath.dirname(uri.fsPath)
+  const lineStarts = [0]
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1)
+  }
+  const lineAt = (offset: number) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      lineStarts[mid] <= offset ? (low = mid) : (high = mid - 1)
+    }
+    return low
+  }
+  return {
+    wiki: findWikiLinks(text).map((link) => ({ name: parseWikiTarget(link.target).name, line: lineAt(link.start) })),
+    local: findLinks(text)
+      .filter((link) => !isExternal(link.target))
+      .map((link) => ({ file: resolveLocalTarget(link.target, dir).file, line: lineAt(link.start) }))
+      .filter((link): link is { file: string; line: number } => !!link.file),
+    lines: text.split(/\r?\n/),
+  }
+}
+
+async function fileLinks(uri: vscode.Uri) {
+  const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+  if (open && open.isDirty) {
+    // unsaved edits are parsed every time, the cache follows the file on disk
+    return parseLinks(uri, open.getText())
+  }
+  let links = linksCache.get(uri.toString())
+  if (!links) {
+    links = parseLinks(uri, open ? open.getText() : (await vscode.workspace.fs.readFile(uri)).toString())
+    linksCache.set(uri.toString(), links)
+  }
+  return links
+}
+
+/**
+ * Workspace markdown files linking to `target` by wiki link or relative link
+ */
+export async function findBacklinks(target: vscode.Uri): Promise<BacklinkFile[]> {
+  const files = await markdownFiles()
+  const result: BacklinkFile[] = []
+  for (const uri of files) {
+    if (uri.fsPath === target.fsPath) {
+      continue
+    }
+    let links: FileLinks
+    try {
+      links = await fileLinks(uri)
+    } catch {
+      continue
+    }
+    const lines = new Set([
+      ...links.wiki
+        .filter((link) => findWikiTarget(link.name, uri, files)?.fsPath === target.fsPath)
+        .map((link) => link.line),
+      ...links.local.filter((link) => link.file === target.fsPath).map((link) => link.line),
+    ])
+    if (!lines.size) {
+      continue
+    }
+    const refs = Array.from(lines)
+      .sort((a, b) => a - b)
+      .map((line) => ({ uri, line, text: links.lines[line].trim() }))
+    result.push({ uri, refs })
+  }
+  return result.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath))
+}
+
+export class BacklinksProvider implements vscode.TreeDataProvider<BacklinkNode> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<BacklinkNode | undefined>()
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  constructor(private readonly getDocument: () => vscode.TextDocument | undefined) {}
+
+  refresh() {
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  getTreeItem(node: BacklinkNode): vscode.TreeItem {
+    if ('refs' in node) {
+      const item = new vscode.TreeItem(noteName(node.uri), vscode.TreeItemCollapsibleState.Expanded)
+      item.description = vscode.workspace.asRelativePath(node.uri)
+      item.resourceUri = node.uri
+      return item
+    }
+    const item = new vscode.TreeItem(node.text, vscode.TreeItemCollapsibleState.None)
+    item.description = `L${node.line + 1}`
+    item.command = {
+      command: 'vscode.open',
+      title: '',
+      arguments: [node.uri, { selection: new vscode.Range(node.line, 0, node.line, 0) }],
+    }
+    return item
+  }
+
+  async getChildren(node?: BacklinkNode): Promise<BacklinkNode[]> {
+    if (node) {
+      return 'refs' in node ? node.refs : []
+    }
+    const document = this.getDocument()
+    return document && document.uri.scheme === 'file' ? findBacklinks(document.uri) : []
+  }
+}